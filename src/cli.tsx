@@ -2,21 +2,53 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { Box, Newline, Text, render, useApp, useInput } from 'ink';
-import type { CustomProviderData, OnboardingData, Profile, View } from './types.js';
-import { loadProfiles, removeProviderProfiles, saveProfile } from './lib/profiles.js';
-import { restoreInkInput, runProfileInCurrentTerminal } from './lib/terminal.js';
+import type { CustomProviderData, OnboardingData, Profile, ProviderDefinition, View } from './types.js';
+import { runCommand, splitClaudeArgs } from './commands/index.js';
+import { testProfileConnection, type ConnectionResult } from './lib/connection.js';
+import {
+	deleteProfile,
+	duplicateProfile,
+	loadProfiles,
+	loadProfilesWithProblems,
+	profileNeedsToken,
+	renameProfile,
+	saveProfile,
+} from './lib/profiles.js';
+import { applyProjectOverrides, findProjectConfig, type ProjectConfig } from './lib/project.js';
+import { getChainProfiles } from './lib/proxy.js';
+import type { SettingsScope } from './lib/settings.js';
+import { applyProfileToSettings, restoreInkInput, runProfileInCurrentTerminal } from './lib/terminal.js';
+import {
+	isVaultUnlocked,
+	profileUsesVault,
+	resolveVaultRefs,
+	storeProfileSecrets,
+	unlockVault,
+	vaultExists,
+} from './lib/vault.js';
 import { AddProviderForm } from './ui/AddProviderForm.js';
+import { CaptureView } from './ui/CaptureView.js';
 import { ConfigureView } from './ui/ConfigureView.js';
+import { ExportBundleView } from './ui/ExportBundleView.js';
 import { Header, NavLine } from './ui/Header.js';
+import { HistoryView } from './ui/HistoryView.js';
+import { ImportBundleView } from './ui/ImportBundleView.js';
 import { ListView } from './ui/ListView.js';
 import { Menu, type MenuItem } from './ui/Menu.js';
+import { PassphrasePrompt } from './ui/PassphrasePrompt.js';
+import { ProblemsSection } from './ui/ProblemsSection.js';
 import { ProfileEditorView } from './ui/ProfileEditorView.js';
+import { ProfileNameForm } from './ui/ProfileNameForm.js';
+import { ProviderPickerView } from './ui/ProviderPickerView.js';
 import { SwitchView } from './ui/SwitchView.js';
+import { UsageView } from './ui/UsageView.js';
 
 const menuItems: MenuItem[] = [
 	{ label: 'Switch Profile', key: 'switch' },
 	{ label: 'Configure', key: 'configure' },
 	{ label: 'List Profiles', key: 'list' },
+	{ label: 'History', key: 'history' },
+	{ label: 'Usage', key: 'usage' },
 ];
 
 // Store profile to run after app exits
@@ -26,14 +58,29 @@ function App() {
 	const [viewStack, setViewStack] = useState<View[]>(['main']);
 	const [menuIndex, setMenuIndex] = useState(0);
 	const [selectedProfile, setSelectedProfile] = useState<Profile | null>(null);
+	const [pickingProvider, setPickingProvider] = useState(false);
 	const [addingCustomProvider, setAddingCustomProvider] = useState(false);
-	const [lastSwitchedProfile, setLastSwitchedProfile] = useState<string | null>(null);
+	const [bundleMode, setBundleMode] = useState<'import' | 'export' | null>(null);
+	const [capturing, setCapturing] = useState(false);
+	const [listFiltering, setListFiltering] = useState(false);
+	const [applyNotice, setApplyNotice] = useState<string | undefined>();
+	const [connection, setConnection] = useState<{ name: string; result: ConnectionResult | null } | null>(null);
+	const [naming, setNaming] = useState<{ profile: Profile; mode: 'rename' | 'duplicate' } | null>(null);
+	const [pendingUnlock, setPendingUnlock] = useState<{ reason: string; onUnlocked: () => void } | null>(null);
+	const [unlockError, setUnlockError] = useState<string | null>(null);
+	const [project] = useState<{ config: ProjectConfig | null; error?: string }>(() => {
+		try {
+			return { config: findProjectConfig() };
+		} catch (err) {
+			return { config: null, error: (err as Error).message };
+		}
+	});
 	const [profileVersion, setProfileVersion] = useState(0); // Force re-render when profiles change
 	const escExitArmedRef = useRef(false);
 	const escExitTimerRef = useRef<NodeJS.Timeout | null>(null);
 	const { exit } = useApp();
 
-	const profiles = loadProfiles();
+	const { profiles, problems } = loadProfilesWithProblems();
 	const view = viewStack[viewStack.length - 1] || 'main';
 
 	useEffect(() => {
@@ -50,6 +97,9 @@ function App() {
 		setViewStack((prev) => (prev.length > 1 ? prev.slice(0, -1) : prev));
 	};
 
+	// Full-screen forms handle their own keys
+	const isFormOpen = !!selectedProfile || pickingProvider || addingCustomProvider || !!bundleMode || capturing || !!naming || !!pendingUnlock;
+
 	useInput((input, key) => {
 		if (key.ctrl && input === 'c') {
 			process.exit(0);
@@ -85,37 +135,113 @@ function App() {
 				setSelectedProfile(null);
 			}
 		}
-	});
+	}, { isActive: !isFormOpen && !listFiltering });
+
+	// Run `action` once the vault is open, asking for the passphrase first when needed
+	const withVault = (needed: boolean, reason: string, action: () => void) => {
+		let ready = !needed;
+		try {
+			ready = ready || isVaultUnlocked();
+		} catch {}
+		if (ready) {
+			action();
+			return;
+		}
+		setUnlockError(null);
+		setPendingUnlock({ reason, onUnlocked: action });
+	};
+
+	const handleUnlock = (passphrase: string) => {
+		if (!pendingUnlock) return;
+		try {
+			unlockVault(passphrase);
+		} catch (err) {
+			setUnlockError((err as Error).message);
+			return;
+		}
+		setPendingUnlock(null);
+		pendingUnlock.onUnlocked();
+	};
+
+	// With a vault configured, new and edited tokens are stored there instead of in the profile file
+	const saveSecuredProfile = (profile: Profile) => {
+		saveProfile(vaultExists() ? storeProfileSecrets(profile) : profile);
+	};
 
 	const handleConfigureProfile = (profile: Profile) => {
-		setSelectedProfile(profile);
+		withVault(vaultExists(), `Unlock the vault to edit ${profile.name}`, () => setSelectedProfile(profile));
 	};
 
 	const handleAddCustomProvider = () => {
-		setAddingCustomProvider(true);
+		withVault(vaultExists(), 'Unlock the vault to store the new token', () => setPickingProvider(true));
+	};
+
+	// Catalog presets open the schema-driven editor; "Custom…" opens the free-form form
+	const handleProviderPicked = (preset: ProviderDefinition | null) => {
+		setPickingProvider(false);
+		if (preset) {
+			setSelectedProfile({ name: preset.name, provider: preset.id, env: {} });
+		} else {
+			setAddingCustomProvider(true);
+		}
 	};
 
-	const handleRemoveProvider = (providerId: string) => {
-		if (providerId === 'claude') return;
-		removeProviderProfiles(providerId);
+	const handleImport = () => {
+		withVault(vaultExists(), 'Unlock the vault to store imported tokens', () => setBundleMode('import'));
+	};
+
+	const handleCapture = () => {
+		withVault(vaultExists(), 'Unlock the vault to store the captured token', () => setCapturing(true));
+	};
+
+	const handleExport = () => {
+		withVault(profiles.some(profileUsesVault), 'Unlock the vault to export tokens', () => setBundleMode('export'));
+	};
+
+	const handleBundleDone = () => {
+		setBundleMode(null);
+		setCapturing(false);
 		setProfileVersion((v) => v + 1);
+		restoreInkInput();
+	};
+
+	const handleDeleteProfile = (profile: Profile) => {
+		deleteProfile(profile);
+		setProfileVersion((v) => v + 1);
+	};
+
+	// Errors (e.g. a name collision) are shown by the form
+	const handleNameSubmit = (name: string) => {
+		if (!naming) return;
+		if (naming.mode === 'rename') {
+			renameProfile(naming.profile, name);
+		} else {
+			duplicateProfile(naming.profile, name);
+		}
+		setNaming(null);
+		setProfileVersion((v) => v + 1);
+		restoreInkInput();
 	};
 
 	const handleOnboardingComplete = (data: OnboardingData | null) => {
 		if (selectedProfile && data) {
+			// The editor sees vault secrets in plain text; keep the original reference for unchanged values
+			const original = selectedProfile.env;
+			const shown = profileUsesVault(selectedProfile) ? resolveVaultRefs(original) : original;
+			const env = Object.fromEntries(Object.entries(data.env)
+				.map(([key, value]) => [key, key in original && value === shown[key] ? original[key] : value]));
 			const profile: Profile = {
 				name: data.profileName,
 				provider: selectedProfile.provider,
-				env: {
-					...selectedProfile.env,
-					'ANTHROPIC_AUTH_TOKEN': data.token,
-					'ANTHROPIC_BASE_URL': data.baseUrl,
-					'ANTHROPIC_MODEL': data.model,
-				},
+				env,
+				args: data.args.length > 0 ? data.args : undefined,
+				extends: selectedProfile.extends,
+				chain: data.chain || selectedProfile.chain,
 				fileKey: selectedProfile.fileKey,
+				inheritedEnv: selectedProfile.inheritedEnv,
 			};
 
-			saveProfile(profile);
+			saveSecuredProfile(profile);
 			setProfileVersion((v) => v + 1);
 		}
 		setSelectedProfile(null);
@@ -131,13 +257,14 @@ function App() {
 				env: {
 					'ANTHROPIC_AUTH_TOKEN': data.token,
 					'ANTHROPIC_BASE_URL': data.baseUrl,
-					'ANTHROPIC_MODEL': data.defaultModel,
+					// No model means Claude Code picks its own default
+					...(data.defaultModel ? { 'ANTHROPIC_MODEL': data.defaultModel } : {}),
 					'PROVIDER_NAME': data.providerName,
 					'PROVIDER_AUTH_URL': data.authUrl || '',
 					'PROVIDER_AUTH_INSTRUCTIONS': data.authInstructions || '',
 				},
 			};
-			saveProfile(profile);
+			saveSecuredProfile(profile);
 			setProfileVersion((v) => v + 1);
 		}
 		setAddingCustomProvider(false);
@@ -146,29 +273,103 @@ function App() {
 	};
 
 	const handleSwitch = (profile: Profile) => {
-		// Claude profiles don't need a token (they use direct auth)
-		const needsToken = profile.provider !== 'anthropic' && !profile.env['ANTHROPIC_AUTH_TOKEN'];
-
-		if (needsToken) {
+		let members: Profile[] = [];
+		try {
+			members = getChainProfiles(profile);
+		} catch (err) {
+			console.log(`\n\x1b[33m${(err as Error).message}. Fix the chain first.\x1b[0m\n`);
+			return;
+		}
+		if (profile.extendsError) {
+			console.log(`\n\x1b[33m${profile.extendsError}. Fix the profile first.\x1b[0m\n`);
+		} else if (profileNeedsToken(profile)) {
 			console.log(`\n\x1b[33mProfile needs token. Configure first.\x1b[0m\n`);
 		} else {
-			setLastSwitchedProfile(profile.name);
-			// Store profile to run after Ink fully exits
-			profileToRun = profile;
-			// Exit Ink - the profile will be spawned after cleanup
-			exit();
+			withVault([profile, ...members].some(profileUsesVault), `Unlock the vault to launch ${profile.name}`, () => {
+				// Store profile to run after Ink fully exits
+				profileToRun = applyProjectOverrides(profile, project.config);
+				// Exit Ink - the profile will be spawned after cleanup
+				exit();
+			});
+		}
+	};
+
+	// Vault references resolve only once the vault is open
+	const handleTestProfile = (profile: Profile) => {
+		withVault(profileUsesVault(profile), `Unlock the vault to test ${profile.name}`, () => {
+			setConnection({ name: profile.name, result: null });
+			testProfileConnection(profile.env).then((result) => {
+				setConnection((prev) => (prev?.name === profile.name ? { name: profile.name, result } : prev));
+			});
+		});
+	};
+
+	// Project overrides only belong in the project's settings
+	const handleApply = (profile: Profile, scope: SettingsScope) => {
+		if (profile.extendsError) {
+			setApplyNotice(`✗ ${profile.extendsError}. Fix the profile first.`);
+		} else if (profileNeedsToken(profile)) {
+			setApplyNotice('✗ Profile needs token. Configure first.');
+		} else {
+			withVault(profileUsesVault(profile), `Unlock the vault to apply ${profile.name}`, () => {
+				try {
+					const target = scope === 'project' ? applyProjectOverrides(profile, project.config) : profile;
+					setApplyNotice(`✓ Applied ${profile.name} to ${applyProfileToSettings(target, scope)}`);
+				} catch (err) {
+					setApplyNotice(`✗ ${(err as Error).message}`);
+				}
+			});
 		}
 	};
 
+	if (pendingUnlock) {
+		return (
+			<PassphrasePrompt
+				reason={pendingUnlock.reason}
+				error={unlockError}
+				onSubmit={handleUnlock}
+				onCancel={() => setPendingUnlock(null)}
+			/>
+		);
+	}
 	if (selectedProfile) {
 		return (
 			<ProfileEditorView
-				profile={selectedProfile}
+				profile={profileUsesVault(selectedProfile)
+					? { ...selectedProfile, env: resolveVaultRefs(selectedProfile.env) }
+					: selectedProfile}
 				onComplete={handleOnboardingComplete}
 				onCancel={() => setSelectedProfile(null)}
 			/>
 		);
 	}
+	if (pickingProvider) {
+		return (
+			<ProviderPickerView
+				onSelect={handleProviderPicked}
+				onCancel={() => setPickingProvider(false)}
+			/>
+		);
+	}
+	if (naming) {
+		return (
+			<ProfileNameForm
+				profile={naming.profile}
+				mode={naming.mode}
+				onSubmit={handleNameSubmit}
+				onCancel={() => setNaming(null)}
+			/>
+		);
+	}
+	if (bundleMode === 'import') {
+		return <ImportBundleView onSave={saveSecuredProfile} onDone={handleBundleDone} />;
+	}
+	if (capturing) {
+		return <CaptureView onSave={saveSecuredProfile} onDone={handleBundleDone} />;
+	}
+	if (bundleMode === 'export') {
+		return <ExportBundleView onDone={handleBundleDone} />;
+	}
 	if (addingCustomProvider) {
 		return (
 			<AddProviderForm
@@ -185,8 +386,15 @@ function App() {
 					view === 'main' ? 'Profile Manager' :
 					view === 'switch' ? 'Switch Profile' :
 					view === 'configure' ? 'Configure' :
+					view === 'history' ? 'History' :
+					view === 'usage' ? 'Usage' :
 					'All Profiles'
 				}
+				note={
+					project.config ? `Default profile: ${project.config.profile} (from ${project.config.path})` :
+					project.error ? `Ignoring invalid project file: ${project.error}` :
+					undefined
+				}
 			/>
 			<Box flexGrow={1} paddingTop={1} paddingBottom={1} paddingLeft={2} paddingRight={2} borderStyle="round" borderColor="cyan" flexDirection="column">
 				{view === 'main' && (
@@ -194,12 +402,18 @@ function App() {
 						<Menu items={menuItems} selected={menuIndex} onSelect={setMenuIndex} isActive={view === 'main'} />
 						<Newline />
 						<Text color="gray">{profiles.length} profiles configured</Text>
+						<ProblemsSection problems={problems} />
 					</>
 				)}
 				{view === 'switch' && (
 					<SwitchView
+						defaultProfile={project.config?.profile}
 						onSelect={handleSwitch}
+						onApply={handleApply}
+						notice={applyNotice}
+						onFilteringChange={setListFiltering}
 						onCancel={() => {
+							setApplyNotice(undefined);
 							popView();
 							setSelectedProfile(null);
 						}}
@@ -209,22 +423,44 @@ function App() {
 					<ConfigureView
 						onConfigureProfile={handleConfigureProfile}
 						onAddProvider={handleAddCustomProvider}
-						onRemoveProvider={handleRemoveProvider}
+						onImport={handleImport}
+						onCapture={handleCapture}
+						onExport={handleExport}
+						onRenameProfile={(profile) => setNaming({ profile, mode: 'rename' })}
+						onDuplicateProfile={(profile) => setNaming({ profile, mode: 'duplicate' })}
+						onDeleteProfile={handleDeleteProfile}
+						onTestProfile={handleTestProfile}
+						connection={connection}
+						onFilteringChange={setListFiltering}
 					/>
 				)}
 				{view === 'list' && <ListView />}
+				{view === 'history' && <HistoryView />}
+				{view === 'usage' && <UsageView />}
 			</Box>
 			<NavLine />
 		</Box>
 	);
 }
 
-// Render the app and wait for it to exit before running profile
-const { waitUntilExit } = render(<App />);
+const { args, claudeArgs } = splitClaudeArgs(process.argv.slice(2));
 
-// After Ink fully exits, spawn the profile if one was selected
-waitUntilExit().then(() => {
-	if (profileToRun) {
-		runProfileInCurrentTerminal(profileToRun);
-	}
-});
+if (args.length > 0) {
+	// Non-interactive subcommand (run, list, show, ...)
+	runCommand(args, claudeArgs);
+} else {
+	// Render the app and wait for it to exit before running profile
+	const { waitUntilExit } = render(<App />);
+
+	// After Ink fully exits, spawn the profile if one was selected
+	waitUntilExit().then(async () => {
+		if (profileToRun) {
+			try {
+				await runProfileInCurrentTerminal(profileToRun, claudeArgs);
+			} catch (err) {
+				console.error(`\x1b[31mError:\x1b[0m ${(err as Error).message}`);
+				process.exit(1);
+			}
+		}
+	});
+}
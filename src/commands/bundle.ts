@@ -0,0 +1,99 @@
+import {
+	CONFLICT_STRATEGIES,
+	createBundle,
+	importBundle,
+	readBundle,
+	type BundleProfile,
+	type ConflictStrategy,
+	type ImportedProfile,
+} from '../lib/bundle.js';
+import { isSecretKey } from '../lib/mask.js';
+import { findProfile, loadProfiles, saveProfile } from '../lib/profiles.js';
+import { promptHidden, promptLine } from '../lib/prompt.js';
+import { profileUsesVault, storeProfileSecrets, vaultExists } from '../lib/vault.js';
+import type { Profile } from '../types.js';
+import { CommandError, parseCommandArgs, requireProfile } from './shared.js';
+import { ensureVaultUnlocked } from './vault.js';
+
+export async function exportCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { 'with-secrets': { type: 'boolean' } });
+	const profiles = positionals.length > 0 ? positionals.map(requireProfile) : loadProfiles();
+	if (profiles.length === 0) {
+		throw new CommandError('No profiles to export');
+	}
+	const withSecrets = Boolean(values['with-secrets']);
+	if (withSecrets && profiles.some(profileUsesVault)) {
+		await ensureVaultUnlocked();
+	}
+
+	console.log(JSON.stringify(createBundle(profiles, withSecrets), null, 2));
+	if (withSecrets) {
+		console.error('\x1b[33mThe bundle contains plaintext tokens. Share it only over a secure channel.\x1b[0m');
+	}
+}
+
+function parseStrategy(value: string | undefined): ConflictStrategy | undefined {
+	if (value === undefined) return undefined;
+	if (!(CONFLICT_STRATEGIES as readonly string[]).includes(value)) {
+		throw new CommandError(`Invalid --on-conflict "${value}" (expected one of: ${CONFLICT_STRATEGIES.join(', ')})`);
+	}
+	return value as ConflictStrategy;
+}
+
+async function askConflict(profile: BundleProfile): Promise<ConflictStrategy> {
+	while (true) {
+		const answer = (await promptLine(`Profile "${profile.fileKey}" already exists. [s]kip, [o]verwrite or [r]ename? `)).toLowerCase();
+		const strategy = CONFLICT_STRATEGIES.find((s) => s === answer || s[0] === answer);
+		if (strategy) return strategy;
+	}
+}
+
+// Ask for each token the bundle left out; an empty answer leaves it for later.
+async function askRedactedSecrets(imported: ImportedProfile[], save: (profile: Profile) => void): Promise<string[]> {
+	const missing: string[] = [];
+	for (const entry of imported) {
+		for (const key of entry.redacted) {
+			const value = process.stdin.isTTY ? await promptHidden(`${key} for ${entry.name} (empty to skip): `) : '';
+			if (!value) {
+				missing.push(`${entry.fileKey}/${key}`);
+				continue;
+			}
+			const profile = findProfile(loadProfiles(), entry.fileKey);
+			if (profile) save({ ...profile, env: { ...profile.env, [key]: value } });
+		}
+	}
+	return missing;
+}
+
+export async function importCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { 'on-conflict': { type: 'string' } });
+	if (positionals.length !== 1) {
+		throw new CommandError('Usage: claudeprofile import <bundle.json> [--on-conflict skip|overwrite|rename]');
+	}
+	const bundle = readBundle(positionals[0]);
+	const strategy = parseStrategy(values['on-conflict']);
+
+	// With a vault configured, imported tokens go there like tokens entered in the TUI
+	const useVault = vaultExists() && bundle.profiles.some((p) => Object.keys(p.env).some(isSecretKey));
+	if (useVault) {
+		await ensureVaultUnlocked();
+	}
+	const save = (profile: Profile) => saveProfile(useVault ? storeProfileSecrets(profile) : profile);
+
+	const result = await importBundle(
+		bundle,
+		(profile) => strategy ?? (process.stdin.isTTY ? askConflict(profile) : 'skip'),
+		save,
+	);
+	for (const entry of result.imported) {
+		console.log(`✓ ${entry.fileKey}${entry.renamedFrom ? ` (renamed from ${entry.renamedFrom})` : ''}`);
+	}
+	for (const fileKey of result.skipped) {
+		console.log(`- ${fileKey}: skipped, already exists`);
+	}
+
+	const missing = await askRedactedSecrets(result.imported, save);
+	if (missing.length > 0) {
+		console.log(`Still missing: ${missing.join(', ')}. Set them with "claudeprofile" → Configure.`);
+	}
+}
@@ -0,0 +1,48 @@
+import { CAPTURE_SOURCES, captureProfile, type CaptureSource } from '../lib/capture.js';
+import { isSecretKey, maskEnv } from '../lib/mask.js';
+import { getProfilePath, getTargetFileKey, saveProfile } from '../lib/profiles.js';
+import { storeProfileSecrets, vaultExists } from '../lib/vault.js';
+import type { Profile } from '../types.js';
+import { CommandError, confirm, parseCommandArgs } from './shared.js';
+import { ensureVaultUnlocked } from './vault.js';
+
+function parseSource(value: string | undefined): CaptureSource {
+	if (value === undefined) return 'env';
+	if (!(CAPTURE_SOURCES as string[]).includes(value)) {
+		throw new CommandError(`Invalid --from "${value}" (expected one of: ${CAPTURE_SOURCES.join(', ')})`);
+	}
+	return value as CaptureSource;
+}
+
+export async function captureCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, {
+		from: { type: 'string' },
+		yes: { type: 'boolean', short: 'y' },
+	});
+	if (positionals.length !== 1) {
+		throw new CommandError('Usage: claudeprofile capture <name> [--from env|user|project] [--yes]');
+	}
+	const captured = captureProfile(positionals[0], parseSource(values.from));
+	if (Object.keys(captured.env).length === 0) {
+		throw new CommandError(`No ANTHROPIC_*, CLAUDE_* or API_TIMEOUT_MS variables found in ${captured.origin}`);
+	}
+	const fileKey = getTargetFileKey(positionals[0]);
+
+	console.log(`From:     ${captured.origin}`);
+	console.log(`Provider: ${captured.provider ? `${captured.provider.name} (${captured.provider.id})` : `${captured.profile.provider} (no known provider uses this base URL)`}`);
+	console.log('Env:');
+	for (const [key, value] of Object.entries(maskEnv(captured.env))) {
+		console.log(`  ${key}=${value}`);
+	}
+	console.log(`Creates ${getProfilePath(fileKey)}`);
+	await confirm(`Save ${captured.profile.name}?`, values.yes);
+
+	// With a vault configured, captured tokens go there like tokens entered in the TUI
+	let profile: Profile = { ...captured.profile, fileKey };
+	if (vaultExists() && Object.keys(profile.env).some(isSecretKey)) {
+		await ensureVaultUnlocked();
+		profile = storeProfileSecrets(profile);
+	}
+	saveProfile(profile);
+	console.log(`✓ Saved ${profile.name} (${fileKey})`);
+}
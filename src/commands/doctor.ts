@@ -0,0 +1,43 @@
+import { describeConnectionResult, testProfileConnection } from '../lib/connection.js';
+import { hasAuthToken, loadProfiles } from '../lib/profiles.js';
+import { CommandError, parseCommandArgs, requireProfile } from './shared.js';
+import { unlockVaultForProfile } from './vault.js';
+
+export async function doctorCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { timeout: { type: 'string' } });
+	const timeoutMs = values.timeout ? Number(values.timeout) : undefined;
+	if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+		throw new CommandError(`Invalid --timeout "${values.timeout}" (expected milliseconds)`);
+	}
+
+	const profiles = positionals.length > 0 ? positionals.map(requireProfile) : loadProfiles();
+	if (profiles.length === 0) {
+		throw new CommandError('No profiles configured');
+	}
+
+	let failures = 0;
+	for (const profile of profiles) {
+		const label = `${profile.name} (${profile.env['ANTHROPIC_BASE_URL'] || 'default URL'})`;
+		if (profile.extendsError) {
+			failures++;
+			console.log(`✗ ${label}: ${profile.extendsError}`);
+			continue;
+		}
+		if (profile.chain) {
+			console.log(`- ${profile.name}: skipped, chain of ${profile.chain.join(', ')}`);
+			continue;
+		}
+		if (!hasAuthToken(profile) && !profile.env['ANTHROPIC_API_KEY']) {
+			console.log(`- ${label}: skipped, no token`);
+			continue;
+		}
+		await unlockVaultForProfile(profile);
+		const result = await testProfileConnection(profile.env, timeoutMs);
+		if (result.status !== 'ok') failures++;
+		console.log(`${result.status === 'ok' ? '✓' : '✗'} ${label}: ${describeConnectionResult(result)}`);
+	}
+
+	if (failures > 0) {
+		throw new CommandError(`${failures} profile(s) failed the connection test`);
+	}
+}
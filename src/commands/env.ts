@@ -0,0 +1,62 @@
+import { loadProfiles } from '../lib/profiles.js';
+import {
+	ENV_SHELLS,
+	detectEnvShell,
+	formatEnvExports,
+	formatEnvUnset,
+	isValidEnvKey,
+	type EnvShell,
+} from '../lib/shell.js';
+import { ACTIVE_PROFILE_ENV } from '../lib/terminal.js';
+import { resolveEnv } from '../lib/resolve.js';
+import { CommandError, parseCommandArgs, requireProjectProfile } from './shared.js';
+import { unlockVaultForProfile } from './vault.js';
+
+function resolveShell(value: string | undefined): EnvShell {
+	if (!value) return detectEnvShell();
+	if (!(ENV_SHELLS as readonly string[]).includes(value)) {
+		throw new CommandError(`Unsupported shell "${value}" (expected one of: ${ENV_SHELLS.join(', ')})`);
+	}
+	return value as EnvShell;
+}
+
+// Every key any profile sets, so `--unset` leaves no profile behind.
+function collectProfileKeys(): string[] {
+	const keys = new Set<string>([ACTIVE_PROFILE_ENV]);
+	for (const profile of loadProfiles()) {
+		for (const key of Object.keys(profile.env)) {
+			if (isValidEnvKey(key)) keys.add(key);
+		}
+	}
+	return [...keys].sort();
+}
+
+export async function envCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, {
+		shell: { type: 'string', short: 's' },
+		unset: { type: 'boolean' },
+	});
+	const shell = resolveShell(values.shell);
+
+	if (values.unset) {
+		console.log(formatEnvUnset(collectProfileKeys(), shell));
+		return;
+	}
+
+	const profile = requireProjectProfile(positionals[0]);
+	if (profile.extendsError) {
+		throw new CommandError(`Profile "${profile.name}": ${profile.extendsError}`);
+	}
+	if (profile.chain) {
+		throw new CommandError(`Profile "${profile.name}" is a chain; run "claudeprofile proxy ${profile.fileKey}" and point ANTHROPIC_BASE_URL at it`);
+	}
+	const invalid = Object.keys(profile.env).filter((key) => !isValidEnvKey(key));
+	if (invalid.length > 0) {
+		throw new CommandError(`Profile "${profile.name}" has invalid variable names: ${invalid.join(', ')}`);
+	}
+	await unlockVaultForProfile(profile);
+	console.log(formatEnvExports({
+		...resolveEnv(profile.env),
+		[ACTIVE_PROFILE_ENV]: profile.fileKey || profile.name,
+	}, shell));
+}
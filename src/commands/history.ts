@@ -0,0 +1,53 @@
+import { formatRelativeTime, getLastLaunch, getLaunchStats, loadHistory, toggleFavorite } from '../lib/history.js';
+import { runCommand } from './profiles.js';
+import { CommandError, parseCommandArgs, requireProfile } from './shared.js';
+
+const DEFAULT_HISTORY_LIMIT = 10;
+
+// Relaunch the profile used most recently (project overrides still apply).
+export async function lastCommand(args: string[], claudeArgs: string[]): Promise<void> {
+	parseCommandArgs(args, {});
+	const last = getLastLaunch();
+	if (!last) {
+		throw new CommandError('No launches recorded yet');
+	}
+	await runCommand([last.profile], claudeArgs);
+}
+
+export function historyCommand(args: string[]): void {
+	const { values } = parseCommandArgs(args, {
+		json: { type: 'boolean' },
+		limit: { type: 'string', short: 'n' },
+	});
+	const limit = values.limit ? Number(values.limit) : DEFAULT_HISTORY_LIMIT;
+	if (!Number.isInteger(limit) || limit <= 0) {
+		throw new CommandError(`Invalid --limit "${values.limit}" (expected a positive number)`);
+	}
+	const entries = loadHistory();
+	const stats = getLaunchStats(entries);
+
+	if (values.json) {
+		console.log(JSON.stringify({ stats, launches: entries.slice(-limit).reverse() }, null, 2));
+		return;
+	}
+	if (entries.length === 0) {
+		console.log('No launches recorded yet');
+		return;
+	}
+	const keyWidth = Math.max(...stats.map((s) => s.profile.length));
+	for (const s of stats) {
+		console.log(`${s.profile.padEnd(keyWidth)}  ${String(s.launches).padStart(4)} ${s.launches === 1 ? 'launch  ' : 'launches'}  last ${formatRelativeTime(s.lastUsed)}`);
+	}
+	console.log('');
+	for (const entry of entries.slice(-limit).reverse()) {
+		const status = entry.exitCode === 0 ? '✓' : '✗';
+		console.log(`${status} ${entry.startedAt}  ${entry.profile.padEnd(keyWidth)}  ${entry.cwd}  (exit ${entry.exitCode ?? 'signal'})`);
+	}
+}
+
+export function favoriteCommand(args: string[]): void {
+	const { positionals } = parseCommandArgs(args, {});
+	const profile = requireProfile(positionals[0]);
+	const pinned = toggleFavorite(profile.fileKey || '');
+	console.log(pinned ? `★ ${profile.name} pinned` : `${profile.name} unpinned`);
+}
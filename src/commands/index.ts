@@ -0,0 +1,140 @@
+import { exportCommand, importCommand } from './bundle.js';
+import { captureCommand } from './capture.js';
+import { doctorCommand } from './doctor.js';
+import { envCommand } from './env.js';
+import { favoriteCommand, historyCommand, lastCommand } from './history.js';
+import { BundleError } from '../lib/bundle.js';
+import { ProfileError } from '../lib/profiles.js';
+import { ProjectConfigError } from '../lib/project.js';
+import { ProxyError } from '../lib/proxy.js';
+import { ResolveError } from '../lib/resolve.js';
+import { SettingsError } from '../lib/settings.js';
+import { VaultError } from '../lib/vault.js';
+import { CommandError } from './shared.js';
+import {
+	currentCommand,
+	deleteCommand,
+	duplicateCommand,
+	listCommand,
+	renameCommand,
+	runCommand as runProfileCommand,
+	showCommand,
+} from './profiles.js';
+import { proxyCommand } from './proxy.js';
+import { applyCommand, resetCommand } from './settings.js';
+import { usageCommand } from './usage.js';
+import { validateCommand } from './validate.js';
+import { vaultCommand } from './vault.js';
+
+// `claudeArgs` holds everything after `--`, forwarded to claude by launching commands
+type Command = (args: string[], claudeArgs: string[]) => void | Promise<void>;
+
+// Errors meant for the user: printed as a one-line message instead of a stack trace
+const USER_ERRORS = [CommandError, VaultError, ResolveError, ProjectConfigError, BundleError, ProfileError, ProxyError, SettingsError];
+
+const USAGE = `Usage: claudeprofile [command] [-- claude args...]
+
+Run without a command to open the interactive profile manager.
+Arguments after \`--\` are passed through to claude.
+
+Commands:
+  run [name] [-- ...]  Launch claude with a profile (default: the one named
+                       in the nearest .claudeprofile file)
+  last [-- ...]        Relaunch the most recently used profile
+  apply [name] [--project]
+                       Write a profile's env into ~/.claude/settings.json (or
+                       the project's .claude/settings.local.json)
+  reset [--project] [--force]
+                       Restore the settings file from before the first apply
+  list [--json]        List configured profiles
+  show <name> [--json] [--resolve]
+                       Show one profile (secrets masked, references resolved
+                       with --resolve)
+  current              Print the profile active in this shell
+  history [--limit n] [--json]
+                       Show recent launches and per-profile stats
+  usage [--by day|profile|model] [--days n] [--json]
+                       Summarize recorded token usage and cost
+  favorite <name>      Pin or unpin a profile at the top of Switch Profile
+  rename <name> <new name> [--yes]
+                       Rename a profile and its file
+  duplicate <name> <new name>
+                       Copy a profile under a new name
+  delete <name> [--yes]
+                       Delete one profile file
+  env [name] [--shell bash|zsh|fish|pwsh|dotenv]
+                       Print export statements for a profile's env
+  env --unset          Print statements clearing every profile variable
+  validate [--json]    Check every profile file; exits non-zero on problems
+  doctor [name...] [--timeout ms]
+                       Test each profile's base URL, token and model
+  export [name...] [--with-secrets]
+                       Print a bundle of profiles (all by default) for
+                       sharing; tokens are redacted unless --with-secrets
+  import <file> [--on-conflict skip|overwrite|rename]
+                       Add the profiles from a bundle, then ask for any
+                       redacted tokens
+  capture <name> [--from env|user|project] [--yes]
+                       Save the ANTHROPIC_* variables from this shell (or
+                       claude's settings) as a new profile
+  proxy --chain <name,name,...> [--port n] [--timeout ms]
+  proxy <chain profile> [--port n] [--record]
+                       Serve the Messages API locally, failing over between
+                       the profiles on 429, 5xx and timeouts
+  vault <action>       Manage the encrypted token vault:
+                         init, unlock [--ttl minutes], lock, migrate, status
+  help                 Show this help`;
+
+const commands: { [name: string]: Command } = {
+	run: runProfileCommand,
+	last: lastCommand,
+	apply: applyCommand,
+	reset: resetCommand,
+	list: listCommand,
+	ls: listCommand,
+	show: showCommand,
+	current: currentCommand,
+	history: historyCommand,
+	usage: usageCommand,
+	favorite: favoriteCommand,
+	rename: renameCommand,
+	duplicate: duplicateCommand,
+	cp: duplicateCommand,
+	delete: deleteCommand,
+	rm: deleteCommand,
+	env: envCommand,
+	validate: validateCommand,
+	doctor: doctorCommand,
+	export: exportCommand,
+	import: importCommand,
+	capture: captureCommand,
+	proxy: proxyCommand,
+	vault: vaultCommand,
+	help: () => console.log(USAGE),
+};
+
+// Split the command line at the first `--` into our own args and claude's.
+export function splitClaudeArgs(argv: string[]): { args: string[]; claudeArgs: string[] } {
+	const separator = argv.indexOf('--');
+	if (separator === -1) return { args: argv, claudeArgs: [] };
+	return { args: argv.slice(0, separator), claudeArgs: argv.slice(separator + 1) };
+}
+
+export async function runCommand(argv: string[], claudeArgs: string[] = []): Promise<void> {
+	const [name, ...rest] = argv;
+	const key = name === '--help' || name === '-h' ? 'help' : name;
+	const command = Object.hasOwn(commands, key) ? commands[key] : undefined;
+	try {
+		if (!command) {
+			throw new CommandError(`Unknown command "${name}". Run "claudeprofile help" for usage.`);
+		}
+		await command(rest, claudeArgs);
+	} catch (err) {
+		if (USER_ERRORS.some((type) => err instanceof type)) {
+			console.error(`\x1b[31mError:\x1b[0m ${(err as Error).message}`);
+			process.exitCode = err instanceof CommandError ? err.exitCode : 1;
+			return;
+		}
+		throw err;
+	}
+}
@@ -0,0 +1,186 @@
+import path from 'path';
+import {
+	PERSONAL_SOURCE,
+	assertNotShared,
+	assertRenamable,
+	deleteProfile,
+	duplicateProfile,
+	findChildProfiles,
+	getEnvOrigin,
+	getProfileFiles,
+	getProfilePath,
+	getProfilesDir,
+	getTargetFileKey,
+	hasPersonalFile,
+	loadProfiles,
+	loadProfilesWithProblems,
+	profileNeedsToken,
+	renameProfile,
+} from '../lib/profiles.js';
+import { maskEnv } from '../lib/mask.js';
+import { resolveEnv } from '../lib/resolve.js';
+import { formatShellArgs } from '../lib/shell.js';
+import { ACTIVE_PROFILE_ENV, runProfileInCurrentTerminal } from '../lib/terminal.js';
+import type { Profile } from '../types.js';
+import { CommandError, confirm, parseCommandArgs, requireProfile, requireProjectProfile } from './shared.js';
+import { unlockVaultForProfile } from './vault.js';
+
+function toPublicProfile(profile: Profile) {
+	return {
+		name: profile.name,
+		fileKey: profile.fileKey,
+		provider: profile.provider,
+		extends: profile.extends,
+		chain: profile.chain,
+		sharedSource: profile.sharedSource,
+		env: maskEnv(profile.env),
+		args: profile.args,
+	};
+}
+
+export async function runCommand(args: string[], claudeArgs: string[]): Promise<void> {
+	const { positionals } = parseCommandArgs(args, {});
+	const profile = requireProjectProfile(positionals[0]);
+	if (profile.extendsError) {
+		throw new CommandError(`Profile "${profile.name}" cannot be launched: ${profile.extendsError}`);
+	}
+	if (profileNeedsToken(profile)) {
+		throw new CommandError(`Profile "${profile.name}" needs a token. Configure it first.`);
+	}
+	await unlockVaultForProfile(profile);
+	await runProfileInCurrentTerminal(profile, claudeArgs);
+}
+
+export function listCommand(args: string[]): void {
+	const { values } = parseCommandArgs(args, { json: { type: 'boolean' } });
+	const { profiles, problems } = loadProfilesWithProblems();
+	if (problems.length > 0) {
+		console.error(`\x1b[33m${problems.length} profile file(s) have problems. Run "claudeprofile validate" for details.\x1b[0m`);
+	}
+
+	if (values.json) {
+		console.log(JSON.stringify(profiles.map(toPublicProfile), null, 2));
+		return;
+	}
+	if (profiles.length === 0) {
+		console.log(`No profiles configured in ${getProfilesDir()}`);
+		return;
+	}
+	const keyWidth = Math.max(...profiles.map((p) => (p.fileKey || '').length));
+	for (const profile of profiles) {
+		const status = profileNeedsToken(profile) || profile.extendsError ? '✗' : '✓';
+		const model = profile.chain ? `→ ${profile.chain.join(', ')}` : profile.env['ANTHROPIC_MODEL'] || '-';
+		console.log(`${status} ${(profile.fileKey || '').padEnd(keyWidth)}  ${profile.name} (${profile.provider})  ${model}`);
+	}
+}
+
+export async function showCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, {
+		json: { type: 'boolean' },
+		resolve: { type: 'boolean' },
+	});
+	let profile = requireProfile(positionals[0]);
+	if (values.resolve) {
+		await unlockVaultForProfile(profile);
+		profile = { ...profile, env: resolveEnv(profile.env) };
+	}
+
+	if (values.json) {
+		console.log(JSON.stringify(toPublicProfile(profile), null, 2));
+		return;
+	}
+	console.log(`Name:     ${profile.name}`);
+	console.log(`Provider: ${profile.provider}`);
+	if (profile.extends) {
+		console.log(`Extends:  ${profile.extends}${profile.extendsError ? ` (${profile.extendsError})` : ''}`);
+	}
+	if (profile.chain) {
+		console.log(`Chain:    ${profile.chain.join(' → ')}`);
+	}
+	if (profile.sharedSource) {
+		console.log(`Source:   ${profile.sharedSource} (shared, read-only)`);
+		for (const { file, source } of getProfileFiles(profile)) {
+			console.log(`File:     ${file}${source === PERSONAL_SOURCE ? ' (your overrides)' : ''}`);
+		}
+	} else {
+		console.log(`File:     ${path.join(getProfilesDir(), `${profile.fileKey}.json`)}`);
+	}
+	if (profile.args?.length) {
+		console.log(`Args:     ${formatShellArgs(profile.args)}`);
+	}
+	console.log('Env:');
+	for (const [key, value] of Object.entries(maskEnv(profile.env))) {
+		const origin = getEnvOrigin(profile, key);
+		const source = profile.sharedSource && origin === 'own' ? profile.envSources?.[key] : undefined;
+		const note = origin !== 'own' ? origin : source && (source === PERSONAL_SOURCE ? 'your override' : `from ${source}`);
+		console.log(`  ${key}=${value}${note ? `  (${note})` : ''}`);
+	}
+}
+
+export function currentCommand(args: string[]): void {
+	parseCommandArgs(args, {});
+	const active = process.env[ACTIVE_PROFILE_ENV];
+	if (!active) {
+		throw new CommandError('No profile is active in this shell');
+	}
+	console.log(active);
+}
+
+export async function renameCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { yes: { type: 'boolean', short: 'y' } });
+	if (positionals.length !== 2) {
+		throw new CommandError('Usage: claudeprofile rename <name> <new name> [--yes]');
+	}
+	const [query, newName] = positionals;
+	const profile = requireProfile(query);
+	const fileKey = profile.fileKey || '';
+	const targetKey = getTargetFileKey(newName, fileKey);
+	assertRenamable(profile, targetKey);
+
+	if (targetKey === fileKey) {
+		console.log(`Updates ${getProfilePath(fileKey)}`);
+	} else {
+		console.log(`Moves ${getProfilePath(fileKey)} → ${getProfilePath(targetKey)}`);
+		const profiles = loadProfiles();
+		for (const child of findChildProfiles(profiles, fileKey)) {
+			console.log(`Updates "extends" in ${getProfilePath(child.fileKey || '')}`);
+		}
+		for (const other of profiles.filter((p) => p.chain?.includes(fileKey))) {
+			console.log(`Updates "chain" in ${getProfilePath(other.fileKey || '')}`);
+		}
+	}
+	await confirm(`Rename ${profile.name} to ${newName}?`, values.yes);
+	renameProfile(profile, newName);
+	console.log(`✓ Renamed to ${newName} (${targetKey})`);
+}
+
+export function duplicateCommand(args: string[]): void {
+	const { positionals } = parseCommandArgs(args, {});
+	if (positionals.length !== 2) {
+		throw new CommandError('Usage: claudeprofile duplicate <name> <new name>');
+	}
+	const filepath = duplicateProfile(requireProfile(positionals[0]), positionals[1]);
+	console.log(`✓ Created ${filepath}`);
+}
+
+export async function deleteCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { yes: { type: 'boolean', short: 'y' } });
+	if (positionals.length !== 1) {
+		throw new CommandError('Usage: claudeprofile delete <name> [--yes]');
+	}
+	const profile = requireProfile(positionals[0]);
+	if (profile.sharedSource) {
+		if (!hasPersonalFile(profile)) assertNotShared(profile, 'delete');
+		console.log(`Removes your overrides in ${getProfilePath(profile.fileKey || '')}; the profile from ${profile.sharedSource} stays`);
+		await confirm(`Delete your overrides of ${profile.name}?`, values.yes);
+		console.log(`✓ Deleted ${deleteProfile(profile)}`);
+		return;
+	}
+	console.log(`Removes ${getProfilePath(profile.fileKey || '')}`);
+	const children = findChildProfiles(loadProfiles(), profile.fileKey || '');
+	if (children.length > 0) {
+		console.log(`\x1b[33m${children.map((child) => child.fileKey).join(', ')} extend this profile and will stop working\x1b[0m`);
+	}
+	await confirm(`Delete ${profile.name}?`, values.yes);
+	console.log(`✓ Deleted ${deleteProfile(profile)}`);
+}
@@ -0,0 +1,75 @@
+import {
+	DEFAULT_PROXY_PORT,
+	getChainProfiles,
+	getProxyClientEnv,
+	getProxyUpstreams,
+	recordProxyUsage,
+	startProxy,
+} from '../lib/proxy.js';
+import { quoteShellArg } from '../lib/shell.js';
+import { isUsageRecordingEnabled } from '../lib/usage.js';
+import type { Profile } from '../types.js';
+import { CommandError, parseCommandArgs, requireProfile } from './shared.js';
+import { unlockVaultForProfile } from './vault.js';
+
+function parsePort(value: string | undefined): number {
+	if (value === undefined) return DEFAULT_PROXY_PORT;
+	const port = Number(value);
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		throw new CommandError(`Invalid --port "${value}"`);
+	}
+	return port;
+}
+
+// Members from --chain, or from a profile that declares a chain.
+function resolveChainMembers(chain: string | undefined, name: string | undefined): Profile[] {
+	if (chain && name) {
+		throw new CommandError('Pass either a chain profile or --chain, not both');
+	}
+	if (chain) {
+		const keys = chain.split(',').map((key) => key.trim()).filter(Boolean);
+		return getChainProfiles({ name: '--chain', provider: 'chain', env: {}, chain: keys });
+	}
+	if (!name) {
+		throw new CommandError('Usage: claudeprofile proxy --chain <name,name,...> | proxy <chain profile>');
+	}
+	const profile = requireProfile(name);
+	if (!profile.chain) {
+		throw new CommandError(`Profile "${profile.name}" has no "chain"`);
+	}
+	return getChainProfiles(profile);
+}
+
+export async function proxyCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, {
+		chain: { type: 'string', short: 'c' },
+		port: { type: 'string', short: 'p' },
+		host: { type: 'string' },
+		timeout: { type: 'string' },
+		record: { type: 'boolean' },
+	});
+	const timeoutMs = values.timeout ? Number(values.timeout) : undefined;
+	if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+		throw new CommandError(`Invalid --timeout "${values.timeout}" (expected milliseconds)`);
+	}
+
+	const members = resolveChainMembers(values.chain, positionals[0]);
+	for (const member of members) {
+		await unlockVaultForProfile(member);
+	}
+	const upstreams = getProxyUpstreams(members);
+	const proxy = await startProxy(upstreams, {
+		host: values.host,
+		port: parsePort(values.port),
+		timeoutMs,
+		onEvent: (message) => console.error(`[${new Date().toLocaleTimeString()}] ${message}`),
+		onUsage: values.record || isUsageRecordingEnabled() ? recordProxyUsage : undefined,
+	});
+
+	const clientEnv = Object.entries(getProxyClientEnv(proxy, upstreams))
+		.map(([key, value]) => `${key}=${quoteShellArg(value)}`)
+		.join(' ');
+	console.log(`Failing over ${upstreams.map((u) => u.name).join(' → ')} on ${proxy.url}`);
+	console.log(`Point claude at it with: ${clientEnv} claude`);
+	console.log('Press Ctrl+C to stop.');
+}
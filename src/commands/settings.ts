@@ -0,0 +1,34 @@
+import { profileNeedsToken } from '../lib/profiles.js';
+import { resetSettings } from '../lib/settings.js';
+import { applyProfileToSettings } from '../lib/terminal.js';
+import { CommandError, parseCommandArgs, requireProfile, requireProjectProfile } from './shared.js';
+import { unlockVaultForProfile } from './vault.js';
+
+export async function applyCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { project: { type: 'boolean', short: 'p' } });
+	// Project overrides only belong in the project's settings
+	const profile = values.project ? requireProjectProfile(positionals[0]) : requireProfile(positionals[0]);
+	if (profile.extendsError) {
+		throw new CommandError(`Profile "${profile.name}" cannot be applied: ${profile.extendsError}`);
+	}
+	if (profileNeedsToken(profile)) {
+		throw new CommandError(`Profile "${profile.name}" needs a token. Configure it first.`);
+	}
+	await unlockVaultForProfile(profile);
+	const settingsPath = applyProfileToSettings(profile, values.project ? 'project' : 'user');
+	console.log(`✓ Applied ${profile.name} to ${settingsPath}`);
+	console.log('New claude sessions use it until you run "claudeprofile reset".');
+}
+
+export function resetCommand(args: string[]): void {
+	const { values } = parseCommandArgs(args, {
+		project: { type: 'boolean', short: 'p' },
+		force: { type: 'boolean' },
+	});
+	const { entry, keptEdits } = resetSettings(values.project ? 'project' : 'user', values.force);
+	console.log(keptEdits
+		? `✓ Reverted the env keys ${entry.profile} set in ${entry.settingsPath}, keeping later edits`
+		: entry.existed
+		? `✓ Restored ${entry.settingsPath} from before ${entry.profile} was applied`
+		: `✓ Removed ${entry.settingsPath}, which ${entry.profile} had created`);
+}
@@ -0,0 +1,64 @@
+import { parseArgs, type ParseArgsConfig } from 'util';
+import type { Profile } from '../types.js';
+import { findProfile, loadProfiles } from '../lib/profiles.js';
+import { promptLine } from '../lib/prompt.js';
+import { PROJECT_FILE, applyProjectOverrides, findProjectConfig } from '../lib/project.js';
+
+// Thrown by commands for user-facing failures; printed without a stack trace.
+export class CommandError extends Error {
+	constructor(message: string, public exitCode = 1) {
+		super(message);
+		this.name = 'CommandError';
+	}
+}
+
+type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+type ParsedCommandArgs<T extends CommandOptions> = ReturnType<typeof parseArgs<{
+	args: string[];
+	options: T;
+	allowPositionals: true;
+	strict: true;
+}>>;
+
+export function parseCommandArgs<T extends CommandOptions>(args: string[], options: T): ParsedCommandArgs<T> {
+	try {
+		return parseArgs({ args, options, allowPositionals: true, strict: true });
+	} catch (err) {
+		throw new CommandError((err as Error).message);
+	}
+}
+
+// Destructive commands ask first; without a terminal they need --yes.
+export async function confirm(question: string, yes: boolean | undefined): Promise<void> {
+	if (yes) return;
+	if (!process.stdin.isTTY) {
+		throw new CommandError('Refusing to change files without confirmation (pass --yes)');
+	}
+	const answer = await promptLine(`${question} [y/N] `);
+	if (answer.toLowerCase() !== 'y') {
+		throw new CommandError('Cancelled');
+	}
+}
+
+export function requireProfile(query: string | undefined): Profile {
+	if (!query) {
+		throw new CommandError('Missing profile name');
+	}
+	const profiles = loadProfiles();
+	const profile = findProfile(profiles, query);
+	if (!profile) {
+		const known = profiles.map((p) => p.fileKey).join(', ') || 'none';
+		throw new CommandError(`Unknown profile "${query}" (available: ${known})`);
+	}
+	return profile;
+}
+
+// Like requireProfile, but defaults to the nearest .claudeprofile and applies its overrides.
+export function requireProjectProfile(query: string | undefined): Profile {
+	const project = findProjectConfig();
+	const name = query || project?.profile;
+	if (!name) {
+		throw new CommandError(`Missing profile name (no ${PROJECT_FILE} file found)`);
+	}
+	return applyProjectOverrides(requireProfile(name), project);
+}
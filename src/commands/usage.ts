@@ -0,0 +1,62 @@
+import { getUsagePricer } from '../lib/providers.js';
+import {
+	USAGE_GROUPINGS,
+	USAGE_RECORDING_ENV,
+	filterUsageByDays,
+	formatCost,
+	formatTokens,
+	isUsageRecordingEnabled,
+	loadUsage,
+	summarizeUsage,
+	type UsageGrouping,
+	type UsageSummary,
+} from '../lib/usage.js';
+import { CommandError, parseCommandArgs } from './shared.js';
+
+const DEFAULT_USAGE_DAYS = 30;
+
+function printSummaries(title: string, summaries: UsageSummary[]): void {
+	const keyWidth = Math.max(title.length, ...summaries.map((s) => s.key.length));
+	console.log(`${title.padEnd(keyWidth)}  ${'requests'.padStart(8)}  ${'input'.padStart(7)}  ${'output'.padStart(7)}  ${'cache'.padStart(7)}  cost`);
+	for (const s of summaries) {
+		const cache = formatTokens(s.cacheReadTokens + s.cacheWriteTokens);
+		console.log(`${s.key.padEnd(keyWidth)}  ${String(s.requests).padStart(8)}  ${formatTokens(s.inputTokens).padStart(7)}  ${formatTokens(s.outputTokens).padStart(7)}  ${cache.padStart(7)}  ${formatCost(s)}`);
+	}
+}
+
+export function usageCommand(args: string[]): void {
+	const { values } = parseCommandArgs(args, {
+		by: { type: 'string' },
+		days: { type: 'string', short: 'd' },
+		json: { type: 'boolean' },
+	});
+	if (values.by && !(USAGE_GROUPINGS as string[]).includes(values.by)) {
+		throw new CommandError(`Invalid --by "${values.by}" (expected one of: ${USAGE_GROUPINGS.join(', ')})`);
+	}
+	const days = values.days ? Number(values.days) : DEFAULT_USAGE_DAYS;
+	if (!Number.isInteger(days) || days <= 0) {
+		throw new CommandError(`Invalid --days "${values.days}" (expected a positive number)`);
+	}
+
+	const entries = filterUsageByDays(loadUsage(), days);
+	const getPrice = getUsagePricer();
+	const groupings = values.by ? [values.by as UsageGrouping] : USAGE_GROUPINGS;
+
+	if (values.json) {
+		console.log(JSON.stringify(Object.fromEntries(groupings
+			.map((by) => [by, summarizeUsage(entries, by, getPrice)])), null, 2));
+		return;
+	}
+	if (entries.length === 0) {
+		const hint = isUsageRecordingEnabled() ? '' : ` (set ${USAGE_RECORDING_ENV}=1 to record launches)`;
+		console.log(`No usage recorded in the last ${days} days${hint}`);
+		return;
+	}
+	groupings.forEach((by, index) => {
+		if (index > 0) console.log('');
+		printSummaries(by, summarizeUsage(entries, by, getPrice));
+	});
+	if (entries.some((entry) => !getPrice(entry))) {
+		console.log('\n* Some requests have no price. Add "prices" to their provider definition.');
+	}
+}
@@ -0,0 +1,25 @@
+import { getProfileSources, loadProfilesWithProblems } from '../lib/profiles.js';
+import { CommandError, parseCommandArgs } from './shared.js';
+
+export function validateCommand(args: string[]): void {
+	const { values } = parseCommandArgs(args, { json: { type: 'boolean' } });
+	const { profiles, problems } = loadProfilesWithProblems();
+
+	if (values.json) {
+		console.log(JSON.stringify({ valid: problems.length === 0, profiles: profiles.length, problems }, null, 2));
+	} else if (problems.length === 0) {
+		const dirs = getProfileSources().map((source) => source.dir).join(', ');
+		console.log(`✓ ${profiles.length} profile(s) in ${dirs} are valid`);
+	} else {
+		for (const problem of problems) {
+			console.log(`✗ ${problem.file}`);
+			for (const error of problem.errors) {
+				console.log(`    ${error}`);
+			}
+		}
+	}
+
+	if (problems.length > 0) {
+		throw new CommandError(`${problems.length} profile file(s) have problems`);
+	}
+}
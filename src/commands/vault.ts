@@ -0,0 +1,112 @@
+import {
+	VAULT_PASSPHRASE_ENV,
+	createVault,
+	getVaultPath,
+	isVaultUnlocked,
+	lockVault,
+	migrateProfilesToVault,
+	profileUsesVault,
+	saveVaultSession,
+	unlockVault,
+	vaultExists,
+} from '../lib/vault.js';
+import { loadProfiles } from '../lib/profiles.js';
+import { promptHidden } from '../lib/prompt.js';
+import { getChainProfiles } from '../lib/proxy.js';
+import type { Profile } from '../types.js';
+import { CommandError, parseCommandArgs } from './shared.js';
+
+const DEFAULT_SESSION_MINUTES = 15;
+
+async function readPassphrase(question: string): Promise<string> {
+	if (!process.stdin.isTTY) {
+		throw new CommandError(`Vault is locked. Run "claudeprofile vault unlock" or set ${VAULT_PASSPHRASE_ENV}.`);
+	}
+	const passphrase = await promptHidden(question);
+	if (!passphrase) {
+		throw new CommandError('Passphrase cannot be empty');
+	}
+	return passphrase;
+}
+
+export async function ensureVaultUnlocked(): Promise<void> {
+	if (isVaultUnlocked()) return;
+	unlockVault(await readPassphrase('Vault passphrase: '));
+}
+
+// Only prompt when the profile (or a member of its chain) actually references the vault.
+export async function unlockVaultForProfile(profile: Profile): Promise<void> {
+	if ([profile, ...getChainProfiles(profile)].some(profileUsesVault)) {
+		await ensureVaultUnlocked();
+	}
+}
+
+async function initVault(): Promise<void> {
+	if (vaultExists()) {
+		throw new CommandError(`A vault already exists at ${getVaultPath()}`);
+	}
+	const passphrase = await readPassphrase('New vault passphrase: ');
+	const confirmation = await readPassphrase('Repeat passphrase: ');
+	if (passphrase !== confirmation) {
+		throw new CommandError('Passphrases do not match');
+	}
+	createVault(passphrase);
+	console.log(`Created vault at ${getVaultPath()}`);
+	console.log('Run "claudeprofile vault migrate" to move existing tokens into it.');
+}
+
+async function unlockCommand(ttl: string | undefined): Promise<void> {
+	const minutes = ttl ? Number(ttl) : DEFAULT_SESSION_MINUTES;
+	if (!Number.isFinite(minutes) || minutes <= 0) {
+		throw new CommandError(`Invalid --ttl "${ttl}" (expected minutes)`);
+	}
+	await ensureVaultUnlocked();
+	saveVaultSession(minutes * 60 * 1000);
+	console.log(`Vault unlocked for ${minutes} minutes`);
+}
+
+async function migrateCommand(): Promise<void> {
+	await ensureVaultUnlocked();
+	const moved = migrateProfilesToVault();
+	if (moved.length === 0) {
+		console.log('No plaintext tokens to migrate');
+		return;
+	}
+	for (const name of moved) {
+		console.log(`Moved ${name}`);
+	}
+	console.log(`${moved.length} secret(s) now stored in ${getVaultPath()}`);
+}
+
+function statusCommand(): void {
+	if (!vaultExists()) {
+		console.log('No vault configured');
+		return;
+	}
+	const referencing = loadProfiles().filter(profileUsesVault).length;
+	console.log(`Vault:    ${getVaultPath()}`);
+	console.log(`Status:   ${isVaultUnlocked() ? 'unlocked' : 'locked'}`);
+	console.log(`Profiles: ${referencing} using the vault`);
+}
+
+export async function vaultCommand(args: string[]): Promise<void> {
+	const { values, positionals } = parseCommandArgs(args, { ttl: { type: 'string' } });
+	const action = positionals[0] || 'status';
+
+	switch (action) {
+		case 'init':
+			return initVault();
+		case 'unlock':
+			return unlockCommand(values.ttl);
+		case 'lock':
+			lockVault();
+			console.log('Vault locked');
+			return;
+		case 'migrate':
+			return migrateCommand();
+		case 'status':
+			return statusCommand();
+		default:
+			throw new CommandError(`Unknown vault action "${action}" (expected init, unlock, lock, migrate or status)`);
+	}
+}
@@ -0,0 +1,233 @@
+import fs from 'fs-extra';
+import type { Profile } from '../types.js';
+import { isSecretKey } from './mask.js';
+import { getOwnEnv, loadProfiles, saveProfile } from './profiles.js';
+import { isFileOrCommandRef, isReference, isVaultRef } from './references.js';
+import { resolveValue } from './resolve.js';
+import { isJsonObject, validateProfileData, type JsonObject } from './validate.js';
+import { getVaultSecret } from './vault.js';
+
+// A portable set of profiles, e.g. for onboarding a teammate:
+//   { "format": "claude-profiles-bundle", "version": 1, "profiles": [...] }
+const BUNDLE_FORMAT = 'claude-profiles-bundle';
+const BUNDLE_VERSION = 1;
+
+// Stands in for secrets left out of an export
+export const REDACTED_VALUE = '<redacted>';
+
+export interface BundleProfile {
+	fileKey: string;
+	name: string;
+	provider: string;
+	extends?: string;
+	chain?: string[];
+	env: { [key: string]: string };
+	args?: string[];
+}
+
+export interface ProfileBundle {
+	format: typeof BUNDLE_FORMAT;
+	version: typeof BUNDLE_VERSION;
+	exportedAt: string;
+	profiles: BundleProfile[];
+}
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+export const CONFLICT_STRATEGIES: readonly ConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+
+export interface ImportedProfile {
+	fileKey: string;
+	name: string;
+	renamedFrom?: string;
+	// Secret keys that were redacted in the bundle and still need a value
+	redacted: string[];
+}
+
+export interface ImportResult {
+	imported: ImportedProfile[];
+	skipped: string[];
+}
+
+export class BundleError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BundleError';
+	}
+}
+
+// Secrets are redacted unless `withSecrets` is set. Environment references carry no secret
+// and are kept. Vault entries only exist on this machine, and bundles can't carry file or
+// command references, so those are resolved or redacted like secrets.
+function exportValue(key: string, value: string, withSecrets: boolean): string {
+	if (isFileOrCommandRef(value)) return withSecrets ? resolveValue(value) : REDACTED_VALUE;
+	if (!isSecretKey(key) || !value) return value;
+	if (isVaultRef(value)) return withSecrets ? getVaultSecret(value) : REDACTED_VALUE;
+	if (isReference(value) || withSecrets) return value;
+	return REDACTED_VALUE;
+}
+
+// Parents and chain members of exported profiles are included (before the profiles
+// that use them) so `extends` and `chain` still resolve.
+export function createBundle(profiles: Profile[], withSecrets = false): ProfileBundle {
+	const all = loadProfiles();
+	const ordered: Profile[] = [];
+	const add = (profile: Profile) => {
+		if (ordered.includes(profile)) return;
+		const parent = profile.extends ? all.find((p) => p.fileKey === profile.extends) : undefined;
+		if (parent && !ordered.includes(parent) && !profile.extendsError) add(parent);
+		for (const key of profile.chain || []) {
+			const member = all.find((p) => p.fileKey === key);
+			if (member && !ordered.includes(member) && !member.chain) add(member);
+		}
+		ordered.push(profile);
+	};
+	for (const profile of profiles) {
+		add(all.find((p) => p.fileKey === profile.fileKey) || profile);
+	}
+
+	return {
+		format: BUNDLE_FORMAT,
+		version: BUNDLE_VERSION,
+		exportedAt: new Date().toISOString(),
+		profiles: ordered.map((profile) => ({
+			fileKey: profile.fileKey || '',
+			name: profile.name,
+			provider: profile.provider,
+			extends: profile.extends,
+			chain: profile.chain,
+			env: Object.fromEntries(Object.entries(getOwnEnv(profile))
+				.map(([key, value]) => [key, exportValue(key, value, withSecrets)])),
+			args: profile.args,
+		})),
+	};
+}
+
+export function parseBundle(content: string): ProfileBundle {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch (err) {
+		throw new BundleError(`Invalid bundle: ${(err as Error).message}`);
+	}
+	if (!isJsonObject(data) || data.format !== BUNDLE_FORMAT || !Array.isArray(data.profiles)) {
+		throw new BundleError('Not a profile bundle (run "claudeprofile export" to create one)');
+	}
+	if (data.version !== BUNDLE_VERSION) {
+		throw new BundleError(`Unsupported bundle version ${data.version}`);
+	}
+	const profiles = (data.profiles as unknown[]).map((profile): BundleProfile => {
+		if (!isJsonObject(profile) || typeof profile.fileKey !== 'string' || !/^[a-z0-9-]+$/.test(profile.fileKey)) {
+			throw new BundleError(`Invalid profile key "${isJsonObject(profile) ? profile.fileKey : ''}" in bundle`);
+		}
+		const { fileKey, provider, env = {} } = profile;
+		if (typeof provider !== 'string') {
+			throw new BundleError(`Profile "${fileKey}" is missing a provider`);
+		}
+		// The same checks as a profile file, so nothing malformed reaches the importer.
+		// Redacted values are asked for on import and checked then.
+		const problems = validateProfileData({
+			...profile,
+			env: isJsonObject(env) ? Object.fromEntries(Object.entries(env).filter(([, value]) => value !== REDACTED_VALUE)) : env,
+		});
+		if (problems.length > 0) {
+			throw new BundleError(`Profile "${fileKey}" is invalid: ${problems.join('; ')}`);
+		}
+		const checked = profile as JsonObject & Omit<BundleProfile, 'fileKey' | 'provider'>;
+		// Importing must never make the next launch read files or run commands
+		for (const [key, value] of Object.entries(checked.env || {})) {
+			if (isFileOrCommandRef(value)) {
+				throw new BundleError(`Profile "${fileKey}": ${key} is a file or command reference, which bundles cannot carry`);
+			}
+		}
+		return {
+			fileKey,
+			name: checked.name,
+			provider,
+			extends: checked.extends,
+			chain: checked.chain,
+			env: checked.env || {},
+			args: checked.args,
+		};
+	});
+	return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: String(data.exportedAt ?? ''), profiles };
+}
+
+export function readBundle(filepath: string): ProfileBundle {
+	if (!fs.existsSync(filepath)) {
+		throw new BundleError(`Bundle not found: ${filepath}`);
+	}
+	return parseBundle(fs.readFileSync(filepath, 'utf8'));
+}
+
+// File keys of bundle profiles that already exist locally.
+export function findBundleConflicts(bundle: ProfileBundle): string[] {
+	const existing = new Set(loadProfiles().map((p) => p.fileKey));
+	return bundle.profiles.map((p) => p.fileKey).filter((key) => existing.has(key));
+}
+
+function uniqueFileKey(base: string, taken: Set<string>): { fileKey: string; suffix: number } {
+	let suffix = 2;
+	while (taken.has(`${base}-${suffix}`)) suffix++;
+	return { fileKey: `${base}-${suffix}`, suffix };
+}
+
+// Merge a bundle into the profiles directory. Redacted secrets are left out of the
+// saved profiles and reported so the caller can ask for them.
+export async function importBundle(
+	bundle: ProfileBundle,
+	resolveConflict: (profile: BundleProfile) => ConflictStrategy | Promise<ConflictStrategy>,
+	save: (profile: Profile) => void = saveProfile,
+): Promise<ImportResult> {
+	const taken = new Set(loadProfiles().map((p) => p.fileKey || ''));
+	// Renamed parents, so children in the same bundle follow them
+	const renamed = new Map<string, string>();
+	const result: ImportResult = { imported: [], skipped: [] };
+
+	for (const entry of bundle.profiles) {
+		let fileKey = entry.fileKey;
+		let name = entry.name;
+		if (taken.has(fileKey)) {
+			const strategy = await resolveConflict(entry);
+			if (strategy === 'skip') {
+				result.skipped.push(fileKey);
+				continue;
+			}
+			if (strategy === 'rename') {
+				const unique = uniqueFileKey(fileKey, taken);
+				fileKey = unique.fileKey;
+				name = `${entry.name} ${unique.suffix}`;
+				renamed.set(entry.fileKey, fileKey);
+			}
+		}
+
+		const env = { ...entry.env };
+		const redacted = Object.keys(env).filter((key) => env[key] === REDACTED_VALUE);
+		for (const key of redacted) delete env[key];
+
+		save({
+			name,
+			provider: entry.provider,
+			env,
+			args: entry.args,
+			extends: entry.extends ? renamed.get(entry.extends) || entry.extends : undefined,
+			chain: entry.chain?.map((key) => renamed.get(key) || key),
+			fileKey,
+		});
+		taken.add(fileKey);
+		result.imported.push({
+			fileKey,
+			name,
+			renamedFrom: fileKey !== entry.fileKey ? entry.fileKey : undefined,
+			redacted,
+		});
+	}
+	return result;
+}
+
+// Bundles that carry secrets are only readable by the owner, also when they replace an
+// existing file (the write mode only applies to new files).
+export function writeBundle(filepath: string, bundle: ProfileBundle, withSecrets: boolean): void {
+	fs.writeFileSync(filepath, JSON.stringify(bundle, null, 2) + '\n', { mode: withSecrets ? 0o600 : 0o644 });
+	if (withSecrets) fs.chmodSync(filepath, 0o600);
+}
@@ -0,0 +1,86 @@
+import type { Profile, ProviderDefinition } from '../types.js';
+import { KNOWN_CLAUDE_ENV } from './claude-env.js';
+import { slugify } from './profiles.js';
+import { loadProviderCatalog } from './providers.js';
+import { readSettingsEnv, type SettingsScope } from './settings.js';
+
+// Where a profile is captured from: the current shell or one of claude's settings files
+export type CaptureSource = 'env' | SettingsScope;
+export const CAPTURE_SOURCES: CaptureSource[] = ['env', 'user', 'project'];
+
+export interface CapturedEnv {
+	env: { [key: string]: string };
+	// Human-readable description of the source
+	origin: string;
+}
+
+export interface CapturedProfile extends CapturedEnv {
+	profile: Profile;
+	// Undefined when the base URL matches no known provider
+	provider?: ProviderDefinition;
+}
+
+// A shell started from claude also carries its session's CLAUDE_* variables, so from the
+// environment only the documented ones are taken. Settings files were written on purpose.
+function isCapturedKey(key: string, source: CaptureSource): boolean {
+	if (key.startsWith('ANTHROPIC_') || key === 'API_TIMEOUT_MS') return true;
+	if (!key.startsWith('CLAUDE_')) return false;
+	return source !== 'env' || KNOWN_CLAUDE_ENV.some((known) => known.key === key);
+}
+
+export function collectEnv(source: CaptureSource): CapturedEnv {
+	let raw: { [key: string]: unknown };
+	let origin: string;
+	if (source === 'env') {
+		raw = process.env;
+		origin = 'the current environment';
+	} else {
+		const { settingsPath, env } = readSettingsEnv(source);
+		raw = env;
+		origin = settingsPath;
+	}
+	const env: { [key: string]: string } = {};
+	for (const key of Object.keys(raw).sort()) {
+		const value = raw[key];
+		if (isCapturedKey(key, source) && typeof value === 'string' && value) env[key] = value;
+	}
+	return { env, origin };
+}
+
+function normalizeUrl(url: string): { host: string; path: string } | null {
+	try {
+		const parsed = new URL(url);
+		return { host: parsed.host.toLowerCase(), path: parsed.pathname.replace(/\/+$/, '') };
+	} catch {
+		return null;
+	}
+}
+
+// The catalog entry on the same host, preferring the one whose path the URL starts with.
+// Without a base URL claude talks to Anthropic directly.
+export function guessProvider(baseUrl: string | undefined, catalog = loadProviderCatalog()): ProviderDefinition | undefined {
+	if (!baseUrl) return catalog.find((p) => p.id === 'anthropic');
+	const target = normalizeUrl(baseUrl);
+	if (!target) return undefined;
+	const sameHost = catalog.filter((p) => normalizeUrl(p.baseUrl)?.host === target.host);
+	return sameHost.find((p) => target.path.startsWith(normalizeUrl(p.baseUrl)?.path || '')) || sameHost[0];
+}
+
+// Unknown providers get an id from the base URL's host, like custom providers added in the TUI.
+function getCustomProviderId(baseUrl: string): string {
+	const host = normalizeUrl(baseUrl)?.host;
+	return host ? slugify(host.replace(/^api\./, '')) : 'custom';
+}
+
+// `env` is empty when the source holds nothing worth capturing.
+export function captureProfile(name: string, source: CaptureSource): CapturedProfile {
+	const { env, origin } = collectEnv(source);
+	const baseUrl = env['ANTHROPIC_BASE_URL'];
+	const provider = guessProvider(baseUrl);
+	return {
+		env,
+		origin,
+		provider,
+		profile: { name, provider: provider?.id || getCustomProviderId(baseUrl || ''), env },
+	};
+}
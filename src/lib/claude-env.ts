@@ -0,0 +1,25 @@
+// Environment variables claude understands, offered as suggestions in the profile editor.
+// `format` is checked when profile files are validated.
+export const KNOWN_CLAUDE_ENV: { key: string; description: string; format?: 'url' | 'integer' }[] = [
+	{ key: 'ANTHROPIC_API_KEY', description: 'API key sent as x-api-key' },
+	{ key: 'ANTHROPIC_CUSTOM_HEADERS', description: 'Extra request headers ("Name: value", one per line)' },
+	{ key: 'ANTHROPIC_SMALL_FAST_MODEL', description: 'Model for background tasks' },
+	{ key: 'ANTHROPIC_DEFAULT_OPUS_MODEL', description: 'Model used for the Opus tier' },
+	{ key: 'ANTHROPIC_DEFAULT_SONNET_MODEL', description: 'Model used for the Sonnet tier' },
+	{ key: 'ANTHROPIC_DEFAULT_HAIKU_MODEL', description: 'Model used for the Haiku tier' },
+	{ key: 'API_TIMEOUT_MS', description: 'Request timeout in milliseconds', format: 'integer' },
+	{ key: 'BASH_DEFAULT_TIMEOUT_MS', description: 'Default timeout for bash commands', format: 'integer' },
+	{ key: 'BASH_MAX_TIMEOUT_MS', description: 'Maximum timeout for bash commands', format: 'integer' },
+	{ key: 'CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC', description: 'Disable telemetry, updates and error reporting' },
+	{ key: 'CLAUDE_CODE_MAX_OUTPUT_TOKENS', description: 'Maximum output tokens per request', format: 'integer' },
+	{ key: 'CLAUDE_CODE_USE_BEDROCK', description: 'Use Amazon Bedrock' },
+	{ key: 'CLAUDE_CODE_USE_VERTEX', description: 'Use Google Vertex AI' },
+	{ key: 'DISABLE_AUTOUPDATER', description: 'Disable automatic updates' },
+	{ key: 'DISABLE_ERROR_REPORTING', description: 'Disable error reporting' },
+	{ key: 'DISABLE_TELEMETRY', description: 'Disable telemetry' },
+	{ key: 'HTTPS_PROXY', description: 'HTTPS proxy server', format: 'url' },
+	{ key: 'HTTP_PROXY', description: 'HTTP proxy server', format: 'url' },
+	{ key: 'NO_PROXY', description: 'Hosts that bypass the proxy' },
+	{ key: 'MAX_THINKING_TOKENS', description: 'Extended thinking budget', format: 'integer' },
+	{ key: 'MCP_TIMEOUT', description: 'MCP server startup timeout in milliseconds', format: 'integer' },
+];
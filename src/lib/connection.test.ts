@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { testConnection } from './connection.js';
+
+// A stand-in for the Messages API: answers by the token and model it is sent
+function handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+	let body = '';
+	request.on('data', (chunk) => body += chunk);
+	request.on('end', () => {
+		const { model } = JSON.parse(body);
+		const reply = (status: number, data: object) => {
+			response.writeHead(status, { 'content-type': 'application/json' });
+			response.end(JSON.stringify(data));
+		};
+		if (request.headers['authorization'] !== 'Bearer good-token') {
+			reply(401, { error: { type: 'authentication_error', message: 'invalid x-api-key' } });
+		} else if (model === 'slow-model') {
+			// Never answers, so the client has to give up
+		} else if (model !== 'known-model') {
+			reply(404, { error: { type: 'not_found_error', message: `model: ${model}` } });
+		} else {
+			reply(200, { id: 'msg_1', type: 'message', content: [] });
+		}
+	});
+}
+
+function listen(server: http.Server): Promise<string> {
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+	});
+}
+
+describe('testConnection', () => {
+	const server = http.createServer(handle);
+	let baseUrl = '';
+
+	before(async () => {
+		baseUrl = await listen(server);
+	});
+
+	after(() => {
+		server.closeAllConnections();
+		server.close();
+	});
+
+	const env = (overrides: { [key: string]: string }) => ({
+		ANTHROPIC_BASE_URL: baseUrl,
+		ANTHROPIC_AUTH_TOKEN: 'good-token',
+		ANTHROPIC_MODEL: 'known-model',
+		...overrides,
+	});
+
+	it('reports a working profile as ok', async () => {
+		const result = await testConnection(env({}));
+		assert.equal(result.status, 'ok');
+		assert.equal(result.httpStatus, 200);
+	});
+
+	it('reports a rejected token as an auth failure', async () => {
+		const result = await testConnection(env({ ANTHROPIC_AUTH_TOKEN: 'bad-token' }));
+		assert.equal(result.status, 'auth');
+		assert.equal(result.httpStatus, 401);
+		assert.equal(result.message, 'invalid x-api-key');
+	});
+
+	it('reports an unknown model', async () => {
+		const result = await testConnection(env({ ANTHROPIC_MODEL: 'no-such-model' }));
+		assert.equal(result.status, 'model');
+		assert.equal(result.message, 'model: no-such-model');
+	});
+
+	it('reports a host that refuses connections as unreachable', async () => {
+		const closed = http.createServer();
+		const closedUrl = await listen(closed);
+		await new Promise((resolve) => closed.close(resolve));
+		const result = await testConnection(env({ ANTHROPIC_BASE_URL: closedUrl }));
+		assert.equal(result.status, 'unreachable');
+		assert.equal(result.message, 'ECONNREFUSED');
+	});
+
+	it('gives up on a server that never answers', async () => {
+		const result = await testConnection(env({ ANTHROPIC_MODEL: 'slow-model' }), 200);
+		assert.equal(result.status, 'timeout');
+		assert.equal(result.message, 'No response within 200ms');
+	});
+});
@@ -0,0 +1,107 @@
+import { resolveEnv } from './resolve.js';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export type ConnectionStatus = 'ok' | 'auth' | 'model' | 'unreachable' | 'timeout' | 'error';
+
+export interface ConnectionResult {
+	status: ConnectionStatus;
+	httpStatus?: number;
+	latencyMs: number;
+	message: string;
+}
+
+function errorMessageFromBody(body: string): string {
+	try {
+		const data = JSON.parse(body);
+		return data?.error?.message || data?.message || body;
+	} catch {
+		return body;
+	}
+}
+
+function classifyResponse(httpStatus: number, message: string): ConnectionStatus {
+	if (httpStatus >= 200 && httpStatus < 300) return 'ok';
+	if (httpStatus === 401 || httpStatus === 403) return 'auth';
+	if ((httpStatus === 400 || httpStatus === 404) && /model/i.test(message)) return 'model';
+	return 'error';
+}
+
+export function getBaseUrl(env: { [key: string]: string }): string {
+	return (env['ANTHROPIC_BASE_URL'] || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+// Mirrors how claude authenticates: AUTH_TOKEN as a bearer token, API_KEY as x-api-key.
+export function buildAuthHeaders(env: { [key: string]: string }): { [key: string]: string } {
+	const headers: { [key: string]: string } = { 'anthropic-version': '2023-06-01' };
+	if (env['ANTHROPIC_AUTH_TOKEN']) headers['authorization'] = `Bearer ${env['ANTHROPIC_AUTH_TOKEN']}`;
+	if (env['ANTHROPIC_API_KEY']) headers['x-api-key'] = env['ANTHROPIC_API_KEY'];
+	return headers;
+}
+
+export function getTimeoutMs(env: { [key: string]: string }, fallbackMs = DEFAULT_TIMEOUT_MS): number {
+	const timeout = Number(env['API_TIMEOUT_MS']);
+	return Number.isFinite(timeout) && timeout > 0 ? timeout : fallbackMs;
+}
+
+// Sends the smallest possible Messages request using an already-resolved env block.
+export async function testConnection(env: { [key: string]: string }, timeoutMs = getTimeoutMs(env)): Promise<ConnectionResult> {
+	const baseUrl = getBaseUrl(env);
+	const headers = { ...buildAuthHeaders(env), 'content-type': 'application/json' };
+
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutMs);
+	const started = Date.now();
+	try {
+		const response = await fetch(`${baseUrl}/v1/messages`, {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({
+				model: env['ANTHROPIC_MODEL'] || 'claude-sonnet-4-20250514',
+				max_tokens: 1,
+				messages: [{ role: 'user', content: 'ping' }],
+			}),
+			signal: controller.signal,
+		});
+		const body = await response.text();
+		const latencyMs = Date.now() - started;
+		const message = response.ok ? 'OK' : errorMessageFromBody(body) || response.statusText;
+		return { status: classifyResponse(response.status, message), httpStatus: response.status, latencyMs, message };
+	} catch (err) {
+		const latencyMs = Date.now() - started;
+		if (controller.signal.aborted) {
+			return { status: 'timeout', latencyMs, message: `No response within ${timeoutMs}ms` };
+		}
+		const cause = (err as { cause?: { code?: string; message?: string } }).cause;
+		return { status: 'unreachable', latencyMs, message: cause?.code || cause?.message || (err as Error).message };
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// Resolves references first; resolution failures are reported as a result, not thrown.
+export async function testProfileConnection(env: { [key: string]: string }, timeoutMs?: number): Promise<ConnectionResult> {
+	let resolved: { [key: string]: string };
+	try {
+		resolved = resolveEnv(env);
+	} catch (err) {
+		return { status: 'error', latencyMs: 0, message: (err as Error).message };
+	}
+	return testConnection(resolved, timeoutMs ?? getTimeoutMs(resolved));
+}
+
+const STATUS_LABELS: { [status in ConnectionStatus]: string } = {
+	ok: 'Connected',
+	auth: 'Authentication failed',
+	model: 'Unknown model',
+	unreachable: 'Host unreachable',
+	timeout: 'Timed out',
+	error: 'Request failed',
+};
+
+export function describeConnectionResult(result: ConnectionResult): string {
+	const http = result.httpStatus ? ` (HTTP ${result.httpStatus})` : '';
+	const detail = result.status === 'ok' ? '' : `: ${result.message}`;
+	return `${STATUS_LABELS[result.status]}${http} in ${result.latencyMs}ms${detail}`;
+}
@@ -0,0 +1,71 @@
+export interface FuzzyMatch {
+	score: number;
+	// Indexes of the matched characters in the text
+	positions: number[];
+}
+
+function isWordStart(text: string, index: number): boolean {
+	return index === 0 || !/[a-z0-9]/i.test(text[index - 1]) || (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+}
+
+// Case-insensitive subsequence match: every query character must appear in order.
+// Consecutive runs and matches at word starts score higher.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+	const needle = query.toLowerCase().replace(/\s+/g, '');
+	if (!needle) return { score: 0, positions: [] };
+	const haystack = text.toLowerCase();
+
+	let best: FuzzyMatch | null = null;
+	// Try every start of the first character so "zai air" prefers "Air" over the "a" in "zAI"
+	for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+		const positions = [start];
+		let cursor = start + 1;
+		for (const char of needle.slice(1)) {
+			const next = haystack.indexOf(char, cursor);
+			if (next === -1) break;
+			positions.push(next);
+			cursor = next + 1;
+		}
+		if (positions.length !== needle.length) break;
+
+		let score = 0;
+		positions.forEach((position, i) => {
+			score += 1;
+			if (isWordStart(text, position)) score += 8;
+			if (i > 0 && position === positions[i - 1] + 1) score += 5;
+			if (i > 0) score -= Math.min(3, position - positions[i - 1] - 1);
+		});
+		if (!best || score > best.score) best = { score, positions };
+	}
+	return best;
+}
+
+export interface FuzzyResult<T> {
+	item: T;
+	score: number;
+	// Matched positions per field, in the order the fields were given (empty if that field didn't match)
+	positions: number[][];
+}
+
+// Keep items where any field matches, best score first (ties keep the original order).
+export function fuzzyFilter<T>(items: T[], query: string, fields: (item: T) => string[]): FuzzyResult<T>[] {
+	if (!query.trim()) {
+		return items.map((item) => ({ item, score: 0, positions: fields(item).map(() => []) }));
+	}
+	const results: FuzzyResult<T>[] = [];
+	for (const item of items) {
+		const matches = fields(item).map((text) => fuzzyMatch(query, text));
+		const best = Math.max(...matches.map((match) => match?.score ?? -Infinity));
+		if (best === -Infinity) continue;
+		// Highlight only the best matching field
+		results.push({
+			item,
+			score: best,
+			positions: matches.map((match) => (match && match.score === best ? match.positions : [])),
+		});
+	}
+	return results
+		.map((result, index) => ({ result, index }))
+		.sort((a, b) => b.result.score - a.result.score || a.index - b.index)
+		.map(({ result }) => result);
+}
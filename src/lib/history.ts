@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { isJsonObject } from './validate.js';
+
+// Launches are appended one JSON object per line; older ones are dropped past this many
+const MAX_HISTORY_ENTRIES = 1000;
+
+export interface HistoryEntry {
+	// Profile file key
+	profile: string;
+	name: string;
+	startedAt: string;
+	cwd: string;
+	// null when claude was killed by a signal
+	exitCode: number | null;
+}
+
+export interface LaunchStats {
+	profile: string;
+	name: string;
+	launches: number;
+	lastUsed: string;
+	lastExitCode: number | null;
+}
+
+export function getStateDir(): string {
+	const stateDir = process.env['XDG_STATE_HOME'] || path.join(os.homedir(), '.local', 'state');
+	return path.join(stateDir, 'claude-profiles');
+}
+
+function getHistoryPath(): string {
+	return path.join(getStateDir(), 'history.jsonl');
+}
+
+function getFavoritesPath(): string {
+	return path.join(getStateDir(), 'favorites.json');
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+	return isJsonObject(value) && typeof value.profile === 'string' && typeof value.startedAt === 'string';
+}
+
+// Oldest first; unreadable lines are skipped.
+export function loadHistory(): HistoryEntry[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(getHistoryPath(), 'utf8');
+	} catch {
+		return [];
+	}
+	const entries: HistoryEntry[] = [];
+	for (const line of content.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const entry = JSON.parse(line);
+			if (isHistoryEntry(entry)) entries.push(entry);
+		} catch {}
+	}
+	return entries;
+}
+
+function writeHistory(entries: HistoryEntry[]): void {
+	fs.mkdirSync(getStateDir(), { recursive: true });
+	fs.writeFileSync(getHistoryPath(), entries.map((entry) => JSON.stringify(entry) + '\n').join(''));
+}
+
+export function recordLaunch(entry: HistoryEntry): void {
+	fs.mkdirSync(getStateDir(), { recursive: true });
+	fs.appendFileSync(getHistoryPath(), JSON.stringify(entry) + '\n');
+	const entries = loadHistory();
+	if (entries.length > MAX_HISTORY_ENTRIES) {
+		writeHistory(entries.slice(-MAX_HISTORY_ENTRIES));
+	}
+}
+
+export function getLastLaunch(): HistoryEntry | undefined {
+	const entries = loadHistory();
+	return entries[entries.length - 1];
+}
+
+// One row per profile, most recently used first.
+export function getLaunchStats(entries = loadHistory()): LaunchStats[] {
+	const stats = new Map<string, LaunchStats>();
+	for (const entry of entries) {
+		const current = stats.get(entry.profile);
+		stats.set(entry.profile, {
+			profile: entry.profile,
+			name: entry.name,
+			launches: (current?.launches || 0) + 1,
+			lastUsed: entry.startedAt,
+			lastExitCode: entry.exitCode,
+		});
+	}
+	return [...stats.values()].sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+}
+
+export function loadFavorites(): string[] {
+	try {
+		const data = fs.readJSONSync(getFavoritesPath());
+		return Array.isArray(data.favorites) ? data.favorites.filter((f: unknown) => typeof f === 'string') : [];
+	} catch {
+		return [];
+	}
+}
+
+function saveFavorites(favorites: string[]): void {
+	fs.mkdirSync(getStateDir(), { recursive: true });
+	fs.writeJSONSync(getFavoritesPath(), { favorites }, { spaces: 2 });
+}
+
+// Returns whether the profile is now a favorite.
+export function toggleFavorite(fileKey: string): boolean {
+	const favorites = loadFavorites();
+	const pinned = !favorites.includes(fileKey);
+	saveFavorites(pinned ? [...favorites, fileKey] : favorites.filter((f) => f !== fileKey));
+	return pinned;
+}
+
+// Keep favorites and stats attached to a profile whose file key changed.
+export function renameInHistory(oldKey: string, newKey: string, newName: string): void {
+	const favorites = loadFavorites();
+	if (favorites.includes(oldKey)) {
+		saveFavorites(favorites.map((f) => (f === oldKey ? newKey : f)));
+	}
+	const entries = loadHistory();
+	if (entries.some((entry) => entry.profile === oldKey)) {
+		writeHistory(entries.map((entry) => (entry.profile === oldKey ? { ...entry, profile: newKey, name: newName } : entry)));
+	}
+}
+
+// Favorites first (in pin order), then by last launch, then the rest as given.
+export function sortByRecentUse<T extends { fileKey?: string }>(profiles: T[], stats = getLaunchStats(), favorites = loadFavorites()): T[] {
+	const rank = (profile: T): [number, number] => {
+		const key = profile.fileKey || '';
+		const favorite = favorites.indexOf(key);
+		if (favorite !== -1) return [0, favorite];
+		const recent = stats.findIndex((s) => s.profile === key);
+		return recent !== -1 ? [1, recent] : [2, 0];
+	};
+	return profiles
+		.map((profile, index) => ({ profile, index, rank: rank(profile) }))
+		.sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1] || a.index - b.index)
+		.map(({ profile }) => profile);
+}
+
+export function formatRelativeTime(iso: string, now = Date.now()): string {
+	const seconds = Math.max(0, Math.round((now - Date.parse(iso)) / 1000));
+	if (seconds < 60) return 'just now';
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) return `${minutes}m ago`;
+	const hours = Math.round(minutes / 60);
+	if (hours < 48) return `${hours}h ago`;
+	return `${Math.round(hours / 24)}d ago`;
+}
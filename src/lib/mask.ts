@@ -0,0 +1,24 @@
+import { isReference } from './references.js';
+
+// Matched at the end of the name, so limits such as CLAUDE_CODE_MAX_OUTPUT_TOKENS aren't secrets
+const SECRET_KEY_PATTERN = /(_TOKEN|_KEY|SECRET|PASSWORD)$/i;
+
+export function isSecretKey(key: string): boolean {
+	return SECRET_KEY_PATTERN.test(key);
+}
+
+// Show just enough of a secret to recognise it, e.g. "sk-…abcd". References are shown as-is.
+export function maskSecret(value: string): string {
+	if (!value) return '';
+	if (isReference(value)) return value;
+	if (value.length <= 8) return '•'.repeat(value.length);
+	return `${value.slice(0, 3)}…${value.slice(-4)}`;
+}
+
+export function maskEnv(env: { [key: string]: string }): { [key: string]: string } {
+	const masked: { [key: string]: string } = {};
+	for (const [key, value] of Object.entries(env)) {
+		masked[key] = isSecretKey(key) ? maskSecret(value) : value;
+	}
+	return masked;
+}
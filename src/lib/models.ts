@@ -0,0 +1,91 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { buildAuthHeaders, getBaseUrl } from './connection.js';
+import { slugify } from './profiles.js';
+import { findProvider } from './providers.js';
+import { resolveEnv } from './resolve.js';
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+export type ModelSource = 'live' | 'cache' | 'default';
+
+export interface ModelDiscovery {
+	models: string[];
+	source: ModelSource;
+	// Why the live listing was not used, if it was attempted
+	error?: string;
+}
+
+export function getModelsCacheDir(): string {
+	const cacheDir = process.env['XDG_CACHE_HOME'] || path.join(os.homedir(), '.cache');
+	return path.join(cacheDir, 'claude-profiles', 'models');
+}
+
+function getCachePath(providerId: string): string {
+	return path.join(getModelsCacheDir(), `${slugify(providerId)}.json`);
+}
+
+export function loadCachedModels(providerId: string): string[] {
+	try {
+		const data = fs.readJSONSync(getCachePath(providerId));
+		return Array.isArray(data.models) ? data.models.filter((m: unknown) => typeof m === 'string') : [];
+	} catch {
+		return [];
+	}
+}
+
+function saveCachedModels(providerId: string, models: string[]): void {
+	fs.mkdirSync(getModelsCacheDir(), { recursive: true });
+	fs.writeJSONSync(getCachePath(providerId), { fetchedAt: new Date().toISOString(), models }, { spaces: 2 });
+}
+
+// Anthropic and OpenAI-style listings both return { data: [{ id }] }.
+async function fetchModels(url: string, env: { [key: string]: string }): Promise<string[]> {
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+	try {
+		const response = await fetch(url, { headers: buildAuthHeaders(env), signal: controller.signal });
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+		const body = await response.json() as { data?: { id?: unknown }[] };
+		const models = (body.data || []).map((m) => m.id).filter((id): id is string => typeof id === 'string');
+		if (models.length === 0) {
+			throw new Error('empty model list');
+		}
+		return models.sort();
+	} catch (err) {
+		const cause = (err as { cause?: { code?: string } }).cause;
+		throw new Error(controller.signal.aborted ? 'timed out' : cause?.code || (err as Error).message);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function withDefault(models: string[], defaultModel: string | undefined): string[] {
+	return defaultModel && !models.includes(defaultModel) ? [defaultModel, ...models] : models;
+}
+
+// Live listing when the provider has one, else the on-disk cache, else the catalog default.
+export async function discoverModels(providerId: string, env: { [key: string]: string }): Promise<ModelDiscovery> {
+	const provider = findProvider(providerId);
+	let error: string | undefined;
+
+	if (provider?.modelsEndpoint) {
+		try {
+			const resolved = resolveEnv(env);
+			const models = await fetchModels(getBaseUrl(resolved) + provider.modelsEndpoint, resolved);
+			saveCachedModels(providerId, models);
+			return { models: withDefault(models, provider.defaultModel), source: 'live' };
+		} catch (err) {
+			error = (err as Error).message;
+		}
+	}
+
+	const cached = loadCachedModels(providerId);
+	if (cached.length > 0) {
+		return { models: withDefault(cached, provider?.defaultModel), source: 'cache', error };
+	}
+	return { models: withDefault([], provider?.defaultModel), source: 'default', error };
+}
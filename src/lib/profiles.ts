@@ -1,7 +1,17 @@
 import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
-import type { Profile } from '../types.js';
+import type { Profile, ProfileProblem } from '../types.js';
+import { renameInHistory } from './history.js';
+import { renameInUsage } from './usage.js';
+import { isJsonObject, validateProfileData, type JsonObject } from './validate.js';
+
+export class ProfileError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProfileError';
+	}
+}
 
 // Slugify a name for use as filename.
 export function slugify(name: string): string {
@@ -18,6 +28,28 @@ export function getProfilesDir(): string {
 	return path.join(configDir, 'claude-profiles');
 }
 
+// Shared profile directories, separated like PATH; earlier entries take precedence
+export const PROFILES_PATH_ENV = 'CLAUDE_PROFILES_PATH';
+export const PERSONAL_SOURCE = 'personal';
+
+export interface ProfileSource {
+	dir: string;
+	// PERSONAL_SOURCE, or the shared dir as written in CLAUDE_PROFILES_PATH
+	label: string;
+}
+
+// The personal dir first, then the shared ones. Only the personal dir is ever written.
+export function getProfileSources(): ProfileSource[] {
+	const sources: ProfileSource[] = [{ dir: getProfilesDir(), label: PERSONAL_SOURCE }];
+	for (const entry of (process.env[PROFILES_PATH_ENV] || '').split(path.delimiter)) {
+		const label = entry.trim();
+		if (!label) continue;
+		const dir = path.resolve(label.replace(/^~(?=$|[\\/])/, os.homedir()));
+		if (!sources.some((source) => source.dir === dir)) sources.push({ dir, label });
+	}
+	return sources;
+}
+
 function ensureProfilesDir(): void {
 	const profilesDir = getProfilesDir();
 	// Create directory and all parent directories if needed
@@ -26,44 +58,199 @@ function ensureProfilesDir(): void {
 	}
 }
 
-export function loadProfiles(): Profile[] {
-	const profilesDir = getProfilesDir();
-	if (!fs.existsSync(profilesDir)) return [];
-
-	const files = fs.readdirSync(profilesDir).sort();
-	const profiles: Profile[] = [];
-
-	for (const filename of files) {
-		if (!filename.endsWith('.json') || filename.endsWith('.example.json')) continue;
-		const filepath = path.join(profilesDir, filename);
-		try {
-			const data = fs.readJSONSync(filepath);
-			profiles.push({
-				name: data.name || path.basename(filename, '.json'),
-				provider: data.provider || path.basename(filename, '.json'),
-				env: data.env || {},
-				fileKey: path.basename(filename, '.json'),
+// A profile file as parsed: an object whose env, if any, is an object too
+type ProfileData = JsonObject & { env?: JsonObject };
+// Merged data that can become a profile
+type ProfileRecord = JsonObject & { env: JsonObject };
+
+// One source's file for a profile
+interface ProfileLayer {
+	source: ProfileSource;
+	file: string;
+	data: ProfileData;
+}
+
+// Files that don't parse, or whose root or env isn't an object, can't be used at all.
+function readLayer(source: ProfileSource, fileKey: string, problems: ProfileProblem[]): ProfileLayer | null {
+	const file = path.join(source.dir, `${fileKey}.json`);
+	let data: unknown;
+	try {
+		data = JSON.parse(fs.readFileSync(file, 'utf8'));
+	} catch (err) {
+		problems.push({ file, fileKey, errors: [(err as Error).message] });
+		return null;
+	}
+	if (!isJsonObject(data)) {
+		problems.push({ file, fileKey, errors: ['Profile must be a JSON object'] });
+		return null;
+	}
+	const { env } = data;
+	if (env !== undefined && !isJsonObject(env)) {
+		problems.push({ file, fileKey, errors: ['"env" must be an object'] });
+		return null;
+	}
+	return { source, file, data: { ...data, env } };
+}
+
+// Layers are given highest precedence first. Top-level fields are replaced; env is merged key by key.
+function mergeLayers(layers: ProfileLayer[]): ProfileData {
+	return layers.reduceRight<ProfileData>((merged, { data }) => ({
+		...merged,
+		...data,
+		env: merged.env && data.env ? { ...merged.env, ...data.env } : data.env || merged.env,
+	}), {});
+}
+
+// A profile's layers in one source per file key, highest precedence first.
+function readProfileLayers(problems: ProfileProblem[]): Map<string, ProfileLayer[]> {
+	const layers = new Map<string, ProfileLayer[]>();
+	for (const source of getProfileSources()) {
+		if (!fs.existsSync(source.dir)) continue;
+		for (const filename of fs.readdirSync(source.dir).sort()) {
+			if (!filename.endsWith('.json') || filename.endsWith('.example.json')) continue;
+			const fileKey = path.basename(filename, '.json');
+			const layer = readLayer(source, fileKey, problems);
+			if (layer) layers.set(fileKey, [...(layers.get(fileKey) || []), layer]);
+		}
+	}
+	return layers;
+}
+
+// Merged profile data by file key. Schema problems are checked on the merged data, so a
+// personal override only needs the values it changes; such profiles still load.
+function readProfileFiles(): { records: Map<string, ProfileRecord>; layers: Map<string, ProfileLayer[]>; problems: ProfileProblem[] } {
+	const problems: ProfileProblem[] = [];
+	const layers = readProfileLayers(problems);
+	const records = new Map<string, ProfileRecord>();
+	for (const fileKey of [...layers.keys()].sort()) {
+		const stack = layers.get(fileKey) || [];
+		const data = mergeLayers(stack);
+		const errors = validateProfileData(data);
+		if (errors.length > 0) problems.push({ file: stack[0].file, fileKey, errors });
+		if (!data.env) continue;
+		records.set(fileKey, { ...data, env: data.env });
+	}
+	return { records, layers, problems };
+}
+
+// Build a profile with its `extends` chain applied, parent values first.
+function buildProfile(fileKey: string, records: Map<string, ProfileRecord>, cache: Map<string, Profile>, ancestors: string[]): Profile {
+	const cached = cache.get(fileKey);
+	if (cached) return cached;
+
+	const data = records.get(fileKey) || { env: {} };
+	const profile: Profile = {
+		name: typeof data.name === 'string' && data.name.trim() ? data.name : fileKey,
+		provider: typeof data.provider === 'string' && data.provider ? data.provider : fileKey,
+		env: Object.fromEntries(Object.entries(data.env).filter(([, value]) => typeof value === 'string')) as Profile['env'],
+		args: Array.isArray(data.args) ? data.args.filter((a): a is string => typeof a === 'string') : undefined,
+		chain: Array.isArray(data.chain) ? data.chain.filter((key): key is string => typeof key === 'string') : undefined,
+		fileKey,
+	};
+
+	const parentKey = data.extends;
+	if (typeof parentKey === 'string' && parentKey) {
+		profile.extends = parentKey;
+		if (ancestors.includes(parentKey)) {
+			profile.extendsError = `Inheritance cycle: ${[...ancestors, fileKey, parentKey].join(' → ')}`;
+		} else if (!records.has(parentKey)) {
+			profile.extendsError = `Parent profile "${parentKey}" not found`;
+		} else {
+			const parent = buildProfile(parentKey, records, cache, [...ancestors, fileKey]);
+			profile.provider = typeof data.provider === 'string' && data.provider ? data.provider : parent.provider;
+			profile.args = profile.args || parent.args;
+			profile.chain = profile.chain || parent.chain;
+			profile.env = { ...parent.env, ...profile.env };
+			profile.inheritedEnv = parent.env;
+			profile.extendsError = parent.extendsError;
+		}
+	}
+
+	cache.set(fileKey, profile);
+	return profile;
+}
+
+// Load every profile, plus the problems found in the files (including broken `extends`).
+export function loadProfilesWithProblems(): { profiles: Profile[]; problems: ProfileProblem[] } {
+	const { records, layers, problems } = readProfileFiles();
+	const cache = new Map<string, Profile>();
+	const profiles = [...records.keys()].map((fileKey) => buildProfile(fileKey, records, cache, []));
+
+	for (const profile of profiles) {
+		const stack = layers.get(profile.fileKey || '') || [];
+		const shared = stack.find((layer) => layer.source.label !== PERSONAL_SOURCE);
+		if (shared) {
+			profile.sharedSource = shared.source.label;
+			profile.envSources = Object.fromEntries(Object.keys(records.get(profile.fileKey || '')?.env || {}).map((key) =>
+				[key, stack.find((layer) => layer.data.env && key in layer.data.env)?.source.label || shared.source.label]));
+		}
+		if (!profile.extendsError) continue;
+		const problem = problems.find((p) => p.fileKey === profile.fileKey);
+		if (problem) {
+			problem.errors.push(profile.extendsError);
+		} else {
+			problems.push({
+				file: stack[0]?.file || getProfilePath(profile.fileKey || ''),
+				fileKey: profile.fileKey || '',
+				errors: [profile.extendsError],
 			});
-		} catch { }
+		}
 	}
-	return profiles;
+	problems.sort((a, b) => a.fileKey.localeCompare(b.fileKey));
+	return { profiles, problems };
 }
 
-export function removeProviderProfiles(providerId: string): void {
-	const profilesDir = getProfilesDir();
-	if (!fs.existsSync(profilesDir)) return;
-	for (const filename of fs.readdirSync(profilesDir)) {
-		if (!filename.endsWith('.json') || filename.endsWith('.example.json')) continue;
-		const filepath = path.join(profilesDir, filename);
-		try {
-			const data = fs.readJSONSync(filepath);
-			if (data.provider === providerId) {
-				fs.removeSync(filepath);
-			}
-		} catch {}
+export function loadProfiles(): Profile[] {
+	return loadProfilesWithProblems().profiles;
+}
+
+// Where a profile's env value comes from when it extends another profile.
+export function getEnvOrigin(profile: Profile, key: string): 'own' | 'inherited' | 'overridden' {
+	if (!profile.inheritedEnv || !(key in profile.inheritedEnv)) return 'own';
+	return profile.env[key] === profile.inheritedEnv[key] ? 'inherited' : 'overridden';
+}
+
+// The env values a profile sets itself, i.e. what its file holds.
+export function getOwnEnv(profile: Profile): { [key: string]: string } {
+	if (!profile.extends || !profile.inheritedEnv) return profile.env;
+	return Object.fromEntries(Object.entries(profile.env)
+		.filter(([key]) => getEnvOrigin(profile, key) !== 'inherited'));
+}
+
+// Find a profile by file key or (case-insensitive) display name.
+export function findProfile(profiles: Profile[], query: string): Profile | undefined {
+	const needle = query.trim().toLowerCase();
+	return profiles.find((p) => p.fileKey === query)
+		|| profiles.find((p) => p.name.toLowerCase() === needle)
+		|| profiles.find((p) => p.fileKey === slugify(query));
+}
+
+// A literal token or a reference to one (env, file, command or vault).
+export function hasAuthToken(profile: Profile): boolean {
+	return !!profile.env['ANTHROPIC_AUTH_TOKEN'];
+}
+
+// Anthropic profiles use direct auth and chains use their members' tokens;
+// everything else needs a token to launch.
+export function profileNeedsToken(profile: Profile): boolean {
+	return profile.provider !== 'anthropic' && !profile.chain && !hasAuthToken(profile);
+}
+
+// The parts of `data` that differ from the shared definition, env compared key by key.
+// An override can change a shared value but not remove it.
+function getOverride(shared: ProfileData, data: Profile): ProfileRecord {
+	const override: ProfileRecord = { env: {} };
+	for (const [field, value] of Object.entries(data)) {
+		if (field !== 'env' && value !== undefined && JSON.stringify(value) !== JSON.stringify(shared[field])) {
+			override[field] = value;
+		}
 	}
+	override.env = Object.fromEntries(Object.entries(data.env).filter(([key, value]) => shared.env?.[key] !== value));
+	return override;
 }
 
+// Profiles from a shared source are saved as a personal override holding only what differs;
+// an override without differences is removed.
 export function saveProfile(profile: Profile): void {
 	ensureProfilesDir();
 	const profilesDir = getProfilesDir();
@@ -72,5 +259,156 @@ export function saveProfile(profile: Profile): void {
 	const filepath = path.join(profilesDir, filename);
 	const toWrite = { ...profile };
 	delete toWrite.fileKey;
-	fs.writeJSONSync(filepath, toWrite, { spaces: 2 });
+	delete toWrite.inheritedEnv;
+	delete toWrite.extendsError;
+	delete toWrite.sharedSource;
+	delete toWrite.envSources;
+	// Only what differs from the parent belongs in a child profile's file
+	toWrite.env = getOwnEnv(profile);
+
+	const shared = readSharedProfileData(fileKey);
+	if (!shared) {
+		fs.writeJSONSync(filepath, toWrite, { spaces: 2 });
+		return;
+	}
+	const override = getOverride(shared, toWrite);
+	if (Object.keys(override).length === 1 && Object.keys(override.env).length === 0) {
+		fs.removeSync(filepath);
+	} else {
+		fs.writeJSONSync(filepath, override, { spaces: 2 });
+	}
+}
+
+export function getProfilePath(fileKey: string): string {
+	return path.join(getProfilesDir(), `${fileKey}.json`);
+}
+
+// Profiles that name `fileKey` as their parent.
+export function findChildProfiles(profiles: Profile[], fileKey: string): Profile[] {
+	return profiles.filter((p) => p.extends === fileKey);
+}
+
+// Throws when another profile already goes by `name`; names are compared case-insensitively.
+// `currentKey` is the profile being named, which may keep its own name.
+export function assertUniqueName(name: string, currentKey?: string, profiles = loadProfiles()): void {
+	if (!name.trim()) {
+		throw new ProfileError('Profile name cannot be empty');
+	}
+	const wanted = name.trim().toLowerCase();
+	const other = profiles.find((p) => p.fileKey !== currentKey && p.name.trim().toLowerCase() === wanted);
+	if (other) {
+		throw new ProfileError(`A profile named "${other.name}" already exists (${other.fileKey}.json)`);
+	}
+}
+
+// The file key for a profile named `newName`; throws if the name is taken or another file
+// already uses its slug, so two names never write to the same file.
+// `currentKey` is the profile being renamed, which may keep its own file.
+export function getTargetFileKey(newName: string, currentKey?: string, profiles = loadProfiles()): string {
+	assertUniqueName(newName, currentKey, profiles);
+	const fileKey = slugify(newName);
+	const owner = profiles.find((p) => p.fileKey === fileKey);
+	// A shared profile's key counts too: the new file would silently become its override
+	if (fileKey !== currentKey && (owner || fs.existsSync(getProfilePath(fileKey)))) {
+		throw new ProfileError(`"${newName.trim()}" would be saved as ${fileKey}.json, which ${owner ? `"${owner.name}" already uses` : 'already exists'}`);
+	}
+	return fileKey;
+}
+
+function readLayers(fileKey: string, sources: ProfileSource[]): ProfileLayer[] {
+	return sources
+		.filter((source) => fs.existsSync(path.join(source.dir, `${fileKey}.json`)))
+		.map((source) => readLayer(source, fileKey, []))
+		.filter((layer): layer is ProfileLayer => layer !== null);
+}
+
+// What the shared sources define for `fileKey`, without personal overrides.
+function readSharedProfileData(fileKey: string): ProfileData | undefined {
+	const layers = readLayers(fileKey, getProfileSources().filter((source) => source.label !== PERSONAL_SOURCE));
+	return layers.length > 0 ? mergeLayers(layers) : undefined;
+}
+
+// Whether the personal dir holds a file (or override) for the profile.
+export function hasPersonalFile(profile: Profile): boolean {
+	return fs.existsSync(getProfilePath(profile.fileKey || slugify(profile.name)));
+}
+
+// Files behind a profile, highest precedence first.
+export function getProfileFiles(profile: Profile): { file: string; source: string }[] {
+	return readLayers(profile.fileKey || slugify(profile.name), getProfileSources())
+		.map((layer) => ({ file: layer.file, source: layer.source.label }));
+}
+
+// Shared sources are read-only; only their personal overrides can change.
+export function assertNotShared(profile: Profile, action: string): void {
+	if (profile.sharedSource) {
+		throw new ProfileError(`Cannot ${action} "${profile.name}": it comes from ${profile.sharedSource}, which is read-only`);
+	}
+}
+
+// A shared profile can't move, and neither can one a shared profile extends or chains to,
+// since the shared file would keep pointing at the old key.
+export function assertRenamable(profile: Profile, newKey: string, profiles = loadProfiles()): void {
+	assertNotShared(profile, 'rename');
+	const oldKey = profile.fileKey || slugify(profile.name);
+	const sharedUser = profiles.find((p) => p.sharedSource && (p.extends === oldKey || p.chain?.includes(oldKey)));
+	if (newKey !== oldKey && sharedUser) {
+		throw new ProfileError(`Cannot rename "${profile.name}": "${sharedUser.name}" from ${sharedUser.sharedSource} refers to it`);
+	}
+}
+
+// Rename and duplicate work on the raw data so keys this tool doesn't know survive.
+function readProfileFile(fileKey: string): ProfileData {
+	return mergeLayers(readLayers(fileKey, getProfileSources()));
+}
+
+function writeProfileFile(fileKey: string, data: unknown): string {
+	ensureProfilesDir();
+	const filepath = getProfilePath(fileKey);
+	fs.writeJSONSync(filepath, data, { spaces: 2 });
+	return filepath;
+}
+
+// Renames the profile and its file, and points child profiles at the new file key.
+// Returns every file written or removed.
+export function renameProfile(profile: Profile, newName: string): string[] {
+	const oldKey = profile.fileKey || slugify(profile.name);
+	const newKey = getTargetFileKey(newName, oldKey);
+	const profiles = loadProfiles();
+	assertRenamable(profile, newKey, profiles);
+	const touched = [writeProfileFile(newKey, { ...readProfileFile(oldKey), name: newName.trim() })];
+
+	if (newKey !== oldKey) {
+		for (const child of findChildProfiles(profiles, oldKey)) {
+			const childKey = child.fileKey || slugify(child.name);
+			touched.push(writeProfileFile(childKey, { ...readProfileFile(childKey), extends: newKey }));
+		}
+		for (const other of profiles) {
+			const otherKey = other.fileKey || slugify(other.name);
+			const data = readProfileFile(otherKey);
+			if (!Array.isArray(data.chain) || !data.chain.includes(oldKey)) continue;
+			const chain = data.chain.map((key) => (key === oldKey ? newKey : key));
+			touched.push(writeProfileFile(otherKey, { ...data, chain }));
+		}
+		fs.removeSync(getProfilePath(oldKey));
+		touched.push(getProfilePath(oldKey));
+		renameInHistory(oldKey, newKey, newName.trim());
+		renameInUsage(oldKey, newKey);
+	}
+	return touched;
+}
+
+// Copies the profile file under a new name; returns the new file.
+export function duplicateProfile(profile: Profile, newName: string): string {
+	const newKey = getTargetFileKey(newName);
+	return writeProfileFile(newKey, { ...readProfileFile(profile.fileKey || slugify(profile.name)), name: newName.trim() });
+}
+
+// Removes only this profile's file; returns it. For a shared profile that is the personal
+// override, and the shared definition stays.
+export function deleteProfile(profile: Profile): string {
+	if (!hasPersonalFile(profile)) assertNotShared(profile, 'delete');
+	const filepath = getProfilePath(profile.fileKey || slugify(profile.name));
+	fs.removeSync(filepath);
+	return filepath;
 }
@@ -0,0 +1,88 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { Profile } from '../types.js';
+import { findProfile } from './profiles.js';
+import { MODEL_TIERS } from './providers.js';
+import { isReference } from './references.js';
+
+export const PROJECT_FILE = '.claudeprofile';
+
+// A project's default profile plus model overrides, e.g.
+//   { "profile": "zai", "env": { "ANTHROPIC_MODEL": "glm-4.5-air" } }
+// A file holding just a profile name is accepted too.
+export interface ProjectConfig {
+	path: string;
+	profile: string;
+	env: { [key: string]: string };
+}
+
+export class ProjectConfigError extends Error {
+	constructor(filepath: string, message: string) {
+		super(`${filepath}: ${message}`);
+		this.name = 'ProjectConfigError';
+	}
+}
+
+// The file comes with whatever repository you cloned, so it may only pick models. Anything
+// else could send your token to another host (a base URL) or run commands (a reference).
+const PROJECT_ENV_KEYS = ['ANTHROPIC_MODEL', ...MODEL_TIERS.map((tier) => tier.key)];
+
+function parseProjectFile(filepath: string): ProjectConfig {
+	const content = fs.readFileSync(filepath, 'utf8').trim();
+	if (!content.startsWith('{')) {
+		const name = content.split(/\r?\n/)[0].trim();
+		if (!name) throw new ProjectConfigError(filepath, 'no profile name');
+		return { path: filepath, profile: name, env: {} };
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch (err) {
+		throw new ProjectConfigError(filepath, (err as Error).message);
+	}
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new ProjectConfigError(filepath, 'must hold a profile name or a JSON object');
+	}
+	const { profile, env: rawEnv } = data as { profile?: unknown; env?: unknown };
+	if (typeof profile !== 'string' || !profile) {
+		throw new ProjectConfigError(filepath, '"profile" must name a profile');
+	}
+	if (rawEnv !== undefined && (typeof rawEnv !== 'object' || rawEnv === null || Array.isArray(rawEnv))) {
+		throw new ProjectConfigError(filepath, '"env" must be an object');
+	}
+	const env: { [key: string]: string } = {};
+	for (const [key, value] of Object.entries(rawEnv || {})) {
+		if (!PROJECT_ENV_KEYS.includes(key)) {
+			throw new ProjectConfigError(filepath, `${key} cannot be set here (only ${PROJECT_ENV_KEYS.join(', ')})`);
+		}
+		if (typeof value !== 'string') {
+			throw new ProjectConfigError(filepath, `env value for ${key} must be a string`);
+		}
+		if (isReference(value)) {
+			throw new ProjectConfigError(filepath, `${key} cannot be a reference`);
+		}
+		env[key] = value;
+	}
+	return { path: filepath, profile, env };
+}
+
+// Walk up from `startDir` to the repository root (or the filesystem root outside a repo).
+export function findProjectConfig(startDir = process.cwd()): ProjectConfig | null {
+	let dir = path.resolve(startDir);
+	while (true) {
+		const candidate = path.join(dir, PROJECT_FILE);
+		if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+			return parseProjectFile(candidate);
+		}
+		const parent = path.dirname(dir);
+		if (fs.existsSync(path.join(dir, '.git')) || parent === dir) return null;
+		dir = parent;
+	}
+}
+
+// Applies the project's env overrides when launching the project's own profile.
+export function applyProjectOverrides(profile: Profile, config: ProjectConfig | null): Profile {
+	if (!config || findProfile([profile], config.profile) !== profile) return profile;
+	return { ...profile, env: { ...profile.env, ...config.env } };
+}
@@ -0,0 +1,40 @@
+import readline from 'readline';
+import { Writable } from 'stream';
+import { CommandError } from '../commands/shared.js';
+
+// Ask one question; Ctrl-D, Ctrl-C or the end of stdin cancel it instead of leaving it waiting.
+// Closing the interface also takes the terminal out of raw mode.
+function ask(rl: readline.Interface, question: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let answered = false;
+		rl.on('SIGINT', () => rl.close());
+		rl.on('close', () => {
+			if (!answered) reject(new CommandError('Cancelled'));
+		});
+		rl.question(question, (answer) => {
+			answered = true;
+			rl.close();
+			resolve(answer);
+		});
+	});
+}
+
+// Read one line from the terminal without echoing it (passphrases, tokens).
+export async function promptHidden(question: string): Promise<string> {
+	// readline echoes typed characters to its output, so give it one that drops them;
+	// the prompt itself goes straight to stderr
+	const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+	const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+	process.stderr.write(question);
+	try {
+		return await ask(rl, '');
+	} finally {
+		process.stderr.write('\n');
+	}
+}
+
+// Read one visible line from the terminal (prompts go to stderr so stdout stays clean).
+export async function promptLine(question: string): Promise<string> {
+	const rl = readline.createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+	return (await ask(rl, question)).trim();
+}
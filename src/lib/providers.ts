@@ -0,0 +1,152 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { ModelPrice, ModelTier, Profile, ProviderDefinition, ProviderField } from '../types.js';
+import builtinProviders from '../providers.json' with { type: 'json' };
+import { getProfileSources, getProfilesDir } from './profiles.js';
+import { isReference } from './references.js';
+import type { UsageEntry } from './usage.js';
+import { getEnvFormat, isHttpUrl, isJsonObject } from './validate.js';
+
+export function getUserProvidersDir(): string {
+	return path.join(getProfilesDir(), 'providers');
+}
+
+function isProviderDefinition(data: unknown): data is ProviderDefinition {
+	return isJsonObject(data) && typeof data.id === 'string' && typeof data.name === 'string';
+}
+
+// Each file in a providers dir holds one definition or an array of them.
+function loadProvidersDir(providersDir: string): ProviderDefinition[] {
+	if (!fs.existsSync(providersDir)) return [];
+
+	const providers: ProviderDefinition[] = [];
+	for (const filename of fs.readdirSync(providersDir).sort()) {
+		if (!filename.endsWith('.json')) continue;
+		try {
+			const data = fs.readJSONSync(path.join(providersDir, filename));
+			for (const entry of Array.isArray(data) ? data : [data]) {
+				if (isProviderDefinition(entry)) providers.push(entry);
+			}
+		} catch { }
+	}
+	return providers;
+}
+
+// Lowest precedence first, so later definitions override earlier ones in the catalog:
+// the shared sources' providers dirs, then the personal one.
+function loadUserProviders(): ProviderDefinition[] {
+	return getProfileSources()
+		.reverse()
+		.flatMap((source) => loadProvidersDir(path.join(source.dir, 'providers')));
+}
+
+// Built-in providers merged with user definitions; a user entry with a built-in id overrides it.
+export function loadProviderCatalog(): ProviderDefinition[] {
+	const catalog: ProviderDefinition[] = builtinProviders.map((p) => ({ ...p }));
+	for (const provider of loadUserProviders()) {
+		const index = catalog.findIndex((p) => p.id === provider.id);
+		if (index === -1) {
+			catalog.push({ ...provider, baseUrl: provider.baseUrl || '', defaultModel: provider.defaultModel || '' });
+		} else {
+			catalog[index] = { ...catalog[index], ...provider };
+		}
+	}
+	return catalog;
+}
+
+export function findProvider(providerId: string): ProviderDefinition | undefined {
+	return loadProviderCatalog().find((p) => p.id === providerId);
+}
+
+// The env fields every profile has, followed by the provider's own extras.
+export function getProviderFields(provider?: ProviderDefinition): ProviderField[] {
+	const fields: ProviderField[] = [
+		{ key: 'ANTHROPIC_BASE_URL', label: 'Base URL', default: provider?.baseUrl || '' },
+		{ key: 'ANTHROPIC_MODEL', label: 'Model', default: provider?.defaultModel || '' },
+		{ key: 'ANTHROPIC_AUTH_TOKEN', label: 'API Token', secret: true, required: true },
+	];
+	for (const extra of provider?.fields || []) {
+		const index = fields.findIndex((f) => f.key === extra.key);
+		if (index === -1) {
+			fields.push({ ...extra, label: extra.label || extra.key });
+		} else {
+			fields[index] = { ...fields[index], ...extra };
+		}
+	}
+	return fields;
+}
+
+export const MODEL_TIERS: { tier: ModelTier; key: string; label: string }[] = [
+	{ tier: 'opus', key: 'ANTHROPIC_DEFAULT_OPUS_MODEL', label: 'Opus' },
+	{ tier: 'sonnet', key: 'ANTHROPIC_DEFAULT_SONNET_MODEL', label: 'Sonnet' },
+	{ tier: 'haiku', key: 'ANTHROPIC_DEFAULT_HAIKU_MODEL', label: 'Haiku' },
+	{ tier: 'smallFast', key: 'ANTHROPIC_SMALL_FAST_MODEL', label: 'Small/fast' },
+];
+
+// One field per model tier, defaulting to the provider's mapping.
+export function getModelMappingFields(provider?: ProviderDefinition): ProviderField[] {
+	return MODEL_TIERS.map(({ tier, key, label }) => ({
+		key,
+		label: `${label} model`,
+		default: provider?.modelMapping?.[tier] || '',
+	}));
+}
+
+// The model claude will use per tier; unset tiers fall back to claude's own default.
+export function getModelMapping(profile: Profile): { label: string; key: string; model: string | null }[] {
+	return MODEL_TIERS.map(({ key, label }) => ({ label, key, model: profile.env[key] || null }));
+}
+
+// The provider's price for a model, preferring the longest listed id the model starts with.
+export function findModelPrice(provider: ProviderDefinition | undefined, model: string): ModelPrice | undefined {
+	const prices = provider?.prices || {};
+	const match = Object.keys(prices)
+		.filter((id) => model === id || model.startsWith(id))
+		.sort((a, b) => b.length - a.length)[0];
+	return match ? prices[match] : undefined;
+}
+
+// Prices ledger entries through the provider each was recorded with.
+export function getUsagePricer(catalog = loadProviderCatalog()): (entry: UsageEntry) => ModelPrice | undefined {
+	return (entry) => findModelPrice(catalog.find((p) => p.id === entry.provider), entry.model);
+}
+
+// One message per field that fails, keyed by env key. References are only known at launch.
+export function getFieldProblems(fields: ProviderField[], env: { [key: string]: string }): { [key: string]: string } {
+	const problems: { [key: string]: string } = {};
+	for (const field of fields) {
+		const value = (env[field.key] || '').trim();
+		if (!value) {
+			if (field.required) problems[field.key] = `${field.label} is required`;
+			continue;
+		}
+		if (isReference(value)) continue;
+		const format = getEnvFormat(field.key);
+		if (format === 'url' && !isHttpUrl(value)) {
+			problems[field.key] = `${field.label} must be an http(s) URL`;
+		} else if (format === 'integer' && !/^\d+$/.test(value)) {
+			problems[field.key] = `${field.label} must be a whole number`;
+		} else if (field.pattern) {
+			let pattern: RegExp;
+			try {
+				pattern = new RegExp(field.pattern);
+			} catch {
+				problems[field.key] = `${field.label} has an invalid pattern in its provider definition`;
+				continue;
+			}
+			if (!pattern.test(value)) {
+				problems[field.key] = `${field.label} ${field.patternHint || 'does not match the expected format'}`;
+			}
+		}
+	}
+	return problems;
+}
+
+// claude appends /v1/messages to the base URL, so one that already ends in /v1 usually
+// doubles it. Not an error: providers whose catalog URL ends in /v1 really want it.
+export function getBaseUrlWarning(baseUrl: string, provider?: ProviderDefinition): string | null {
+	const value = baseUrl.trim();
+	if (!isHttpUrl(value) || !/\/v1\/?$/.test(new URL(value).pathname)) return null;
+	if (provider && /\/v1\/?$/.test(provider.baseUrl)) return null;
+	return `Base URL ends in /v1, which claude adds itself (try ${value.replace(/\/v1\/?$/, '')})`;
+}
@@ -0,0 +1,379 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import type { Profile } from '../types.js';
+import { buildAuthHeaders, getBaseUrl, getTimeoutMs } from './connection.js';
+import { findProfile, loadProfiles, profileNeedsToken } from './profiles.js';
+import { MODEL_TIERS } from './providers.js';
+import { resolveEnv } from './resolve.js';
+import { createUsageParser, recordUsage, type TokenUsage } from './usage.js';
+import { isJsonObject } from './validate.js';
+
+export const DEFAULT_PROXY_PORT = 8787;
+// Carries the proxy's token when claude's own credentials must pass through to an upstream
+export const PROXY_TOKEN_HEADER = 'x-claudeprofile-proxy-token';
+const DEFAULT_HOST = '127.0.0.1';
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '::1'];
+// How long to wait for an upstream's response headers before failing over
+const PROXY_TIMEOUT_MS = 60_000;
+// How long a failed upstream is skipped when it doesn't send Retry-After
+const COOLDOWN_MS = 30_000;
+
+// Request headers that describe the connection to the proxy rather than the request
+const HOP_HEADERS = ['host', 'connection', 'keep-alive', 'content-length', 'transfer-encoding', 'accept-encoding'];
+// fetch decodes the body, so the upstream's framing headers no longer apply
+const STRIPPED_RESPONSE_HEADERS = ['connection', 'keep-alive', 'content-length', 'transfer-encoding', 'content-encoding'];
+
+export class ProxyError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProxyError';
+	}
+}
+
+export interface ProxyUpstream {
+	name: string;
+	provider: string;
+	// The member profile's env with references already resolved
+	env: { [key: string]: string };
+}
+
+export interface ProxyOptions {
+	host?: string;
+	// 0 picks a free port
+	port?: number;
+	// Overrides each upstream's API_TIMEOUT_MS
+	timeoutMs?: number;
+	onEvent?: (message: string) => void;
+	// Called with the token counts of each successful Messages response once it has been sent
+	onUsage?: (upstream: ProxyUpstream, usage: TokenUsage & { model: string }) => void;
+}
+
+// Sees each chunk of a response body on its way to the client
+interface BodyTap {
+	onChunk: (chunk: Uint8Array) => void;
+	onEnd: () => void;
+}
+
+export interface RunningProxy {
+	url: string;
+	// Random per run; requests without it are refused
+	token: string;
+	close: () => Promise<void>;
+}
+
+// The profiles a chain fails over between, in order; throws if one can't be used.
+export function getChainProfiles(profile: Profile, profiles = loadProfiles()): Profile[] {
+	if (!profile.chain) return [];
+	if (profile.chain.length === 0) {
+		throw new ProxyError(`Profile "${profile.name}" has an empty chain`);
+	}
+	return profile.chain.map((key) => {
+		const member = findProfile(profiles, key);
+		if (!member) throw new ProxyError(`Chain member "${key}" not found`);
+		if (member.chain) throw new ProxyError(`Chain member "${key}" is itself a chain`);
+		if (member.extendsError) throw new ProxyError(`Chain member "${key}": ${member.extendsError}`);
+		if (profileNeedsToken(member)) throw new ProxyError(`Chain member "${key}" needs a token`);
+		return member;
+	});
+}
+
+export function getProxyUpstreams(members: Profile[]): ProxyUpstream[] {
+	return members.map((member) => ({
+		name: member.fileKey || member.name,
+		provider: member.provider,
+		env: resolveEnv(member.env),
+	}));
+}
+
+// An onUsage handler that appends to the usage ledger.
+export function recordProxyUsage(upstream: ProxyUpstream, usage: TokenUsage & { model: string }): void {
+	recordUsage({ at: new Date().toISOString(), profile: upstream.name, provider: upstream.provider, ...usage });
+}
+
+// Upstreams without a token of their own (e.g. anthropic) rely on claude's login instead.
+function relaysClientAuth(upstreams: ProxyUpstream[]): boolean {
+	return upstreams.some((u) => !u.env['ANTHROPIC_AUTH_TOKEN'] && !u.env['ANTHROPIC_API_KEY']);
+}
+
+// What claude needs in its env to be let in: the token as its own when every upstream brings
+// its own credentials, otherwise in an extra header next to claude's login.
+export function getProxyClientEnv(
+	proxy: RunningProxy,
+	upstreams: ProxyUpstream[],
+	customHeaders?: string,
+): { [key: string]: string } {
+	if (!relaysClientAuth(upstreams)) {
+		return { ANTHROPIC_BASE_URL: proxy.url, ANTHROPIC_AUTH_TOKEN: proxy.token };
+	}
+	const header = `${PROXY_TOKEN_HEADER}: ${proxy.token}`;
+	return { ANTHROPIC_BASE_URL: proxy.url, ANTHROPIC_CUSTOM_HEADERS: customHeaders ? `${customHeaders}\n${header}` : header };
+}
+
+function isLoopbackHost(host: string): boolean {
+	return LOOPBACK_NAMES.includes(host) || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+// IPv6 addresses need brackets in URLs and Host headers
+function formatHost(host: string): string {
+	return host.includes(':') ? `[${host}]` : host;
+}
+
+function tokensMatch(value: string | string[] | undefined, token: string): boolean {
+	if (typeof value !== 'string') return false;
+	const given = Buffer.from(value.replace(/^Bearer\s+/i, ''));
+	const expected = Buffer.from(token);
+	return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// The token, as claude's own credential or in PROXY_TOKEN_HEADER
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+	return [req.headers[PROXY_TOKEN_HEADER], req.headers['authorization'], req.headers['x-api-key']]
+		.some((value) => tokensMatch(value, token));
+}
+
+// Claude names the tier in its model ids (claude-opus-4-1, claude-3-5-haiku-latest, ...).
+// Use the upstream's model for that tier, then its main model; other models are kept.
+function mapModel(model: string, env: { [key: string]: string }): string {
+	const tier = MODEL_TIERS.find(({ tier }) => model.toLowerCase().includes(tier));
+	if (!tier) return model;
+	const smallFast = tier.tier === 'haiku' ? env['ANTHROPIC_SMALL_FAST_MODEL'] : undefined;
+	return env[tier.key] || smallFast || env['ANTHROPIC_MODEL'] || model;
+}
+
+function rewriteModel(body: Buffer, env: { [key: string]: string }): Buffer {
+	let data: unknown;
+	try {
+		data = JSON.parse(body.toString('utf8'));
+	} catch {
+		return body;
+	}
+	if (!isJsonObject(data) || typeof data.model !== 'string') return body;
+	const model = mapModel(data.model, env);
+	return model === data.model ? body : Buffer.from(JSON.stringify({ ...data, model }));
+}
+
+function getRequestModel(body: Buffer): string {
+	try {
+		const model = JSON.parse(body.toString('utf8'))?.model;
+		return typeof model === 'string' ? model : '';
+	} catch {
+		return '';
+	}
+}
+
+function isMessagesRequest(url: string | undefined): boolean {
+	return (url || '').split('?')[0].replace(/\/+$/, '') === '/v1/messages';
+}
+
+function buildUpstreamHeaders(incoming: http.IncomingHttpHeaders, env: { [key: string]: string }): { [key: string]: string } {
+	const { 'anthropic-version': version, ...credentials } = buildAuthHeaders(env);
+	const hasCredentials = Object.keys(credentials).length > 0;
+	const headers: { [key: string]: string } = { 'anthropic-version': version };
+	for (const [key, value] of Object.entries(incoming)) {
+		if (value === undefined || HOP_HEADERS.includes(key) || key === PROXY_TOKEN_HEADER) continue;
+		if (hasCredentials && (key === 'authorization' || key === 'x-api-key')) continue;
+		headers[key] = Array.isArray(value) ? value.join(', ') : value;
+	}
+	return { ...headers, ...credentials };
+}
+
+function shouldFailOver(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+function getCooldownMs(response?: Response): number {
+	const seconds = Number(response?.headers.get('retry-after'));
+	return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : COOLDOWN_MS;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		req.on('data', (chunk: Buffer) => chunks.push(chunk));
+		req.on('end', () => resolve(Buffer.concat(chunks)));
+		req.on('error', reject);
+	});
+}
+
+function copyResponseHeaders(response: Response): { [key: string]: string } {
+	const headers: { [key: string]: string } = {};
+	response.headers.forEach((value, key) => {
+		if (!STRIPPED_RESPONSE_HEADERS.includes(key)) headers[key] = value;
+	});
+	return headers;
+}
+
+// Streams the body chunk by chunk, so server-sent events reach claude as they arrive.
+function pipeResponse(res: http.ServerResponse, response: Response, tap?: BodyTap): void {
+	res.writeHead(response.status, copyResponseHeaders(response));
+	if (!response.body) {
+		res.end();
+		tap?.onEnd();
+		return;
+	}
+	const body = Readable.fromWeb(response.body as ReadableStream);
+	body.on('error', () => res.destroy());
+	if (tap) {
+		body.on('data', tap.onChunk);
+		body.on('end', tap.onEnd);
+	}
+	body.pipe(res);
+}
+
+// Errors in the Messages API's shape, so claude reports them like any other API error
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+	res.writeHead(status, { 'content-type': 'application/json' });
+	res.end(JSON.stringify({ type: 'error', error: { type: 'api_error', message } }));
+}
+
+function describeFetchError(err: unknown): string {
+	const cause = (err as { cause?: { code?: string; message?: string } }).cause;
+	return cause?.code || cause?.message || (err as Error).message;
+}
+
+// Serves the Messages API locally and forwards each request to the first healthy upstream,
+// failing over on 429, 5xx, timeouts and unreachable hosts.
+export async function startProxy(upstreams: ProxyUpstream[], options: ProxyOptions = {}): Promise<RunningProxy> {
+	if (upstreams.length === 0) {
+		throw new ProxyError('A chain needs at least one profile');
+	}
+	const host = options.host || DEFAULT_HOST;
+	// The proxy adds real credentials to whatever it forwards, so it never listens beyond this machine
+	if (!isLoopbackHost(host)) {
+		throw new ProxyError(`Refusing to listen on ${host}: the proxy only serves loopback addresses (${LOOPBACK_NAMES.join(', ')})`);
+	}
+	const token = crypto.randomBytes(24).toString('hex');
+	let allowedHosts: string[] = [];
+	const log = options.onEvent || (() => {});
+	const coolingUntil = new Map<string, number>();
+
+	// Healthy upstreams in chain order, then cooling ones as a last resort
+	const getAttemptOrder = () => {
+		const now = Date.now();
+		const healthy = upstreams.filter((u) => (coolingUntil.get(u.name) || 0) <= now);
+		return [...healthy, ...upstreams.filter((u) => !healthy.includes(u))];
+	};
+
+	const createUsageTap = (upstream: ProxyUpstream, response: Response, sentBody?: Buffer): BodyTap | undefined => {
+		const onUsage = options.onUsage;
+		if (!onUsage) return undefined;
+		const parser = createUsageParser((response.headers.get('content-type') || '').includes('text/event-stream'));
+		return {
+			onChunk: (chunk) => parser.push(chunk),
+			onEnd: () => {
+				const usage = parser.finish();
+				if (!usage) return;
+				try {
+					onUsage(upstream, { ...usage, model: usage.model || (sentBody ? getRequestModel(sentBody) : '') });
+				} catch (err) {
+					log(`Cannot record usage: ${(err as Error).message}`);
+				}
+			},
+		};
+	};
+
+	const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+		const body = await readBody(req);
+		let current: AbortController | null = null;
+		let clientGone = false;
+		res.on('close', () => {
+			clientGone = !res.writableEnded;
+			current?.abort();
+		});
+
+		let lastFailure: { status: number; headers: { [key: string]: string }; body: Buffer } | null = null;
+		let lastError = 'no upstream available';
+		for (const upstream of getAttemptOrder()) {
+			const controller = new AbortController();
+			current = controller;
+			const timeoutMs = options.timeoutMs ?? getTimeoutMs(upstream.env, PROXY_TIMEOUT_MS);
+			const timer = setTimeout(() => controller.abort(), timeoutMs);
+			const sentBody = body.length > 0 ? rewriteModel(body, upstream.env) : undefined;
+			let response: Response;
+			try {
+				response = await fetch(`${getBaseUrl(upstream.env)}${req.url || '/'}`, {
+					method: req.method,
+					headers: buildUpstreamHeaders(req.headers, upstream.env),
+					body: sentBody,
+					signal: controller.signal,
+				});
+			} catch (err) {
+				if (clientGone) return;
+				lastError = controller.signal.aborted ? `no response within ${timeoutMs}ms` : describeFetchError(err);
+				coolingUntil.set(upstream.name, Date.now() + COOLDOWN_MS);
+				log(`${upstream.name}: ${lastError}, failing over`);
+				continue;
+			} finally {
+				clearTimeout(timer);
+			}
+
+			if (shouldFailOver(response.status)) {
+				lastFailure = {
+					status: response.status,
+					headers: copyResponseHeaders(response),
+					body: Buffer.from(await response.arrayBuffer()),
+				};
+				lastError = `HTTP ${response.status}`;
+				coolingUntil.set(upstream.name, Date.now() + getCooldownMs(response));
+				log(`${upstream.name}: HTTP ${response.status}, failing over`);
+				continue;
+			}
+			coolingUntil.delete(upstream.name);
+			log(`${req.method} ${req.url} → ${upstream.name} (HTTP ${response.status})`);
+			pipeResponse(res, response, response.ok && isMessagesRequest(req.url)
+				? createUsageTap(upstream, response, sentBody)
+				: undefined);
+			return;
+		}
+
+		log(`${req.method} ${req.url}: every upstream failed (${lastError})`);
+		if (lastFailure) {
+			res.writeHead(lastFailure.status, lastFailure.headers);
+			res.end(lastFailure.body);
+		} else {
+			sendError(res, 502, `Every profile in the chain failed; last error: ${lastError}`);
+		}
+	};
+
+	const server = http.createServer((req, res) => {
+		// A web page can't pass for claude by pointing its own host name at 127.0.0.1
+		if (!allowedHosts.includes((req.headers.host || '').toLowerCase())) {
+			sendError(res, 403, `Unexpected Host header "${req.headers.host || ''}"`);
+			return;
+		}
+		if (!isAuthorized(req, token)) {
+			log(`${req.method} ${req.url}: refused, missing the proxy token`);
+			sendError(res, 401, 'Missing or wrong claudeprofile proxy token');
+			return;
+		}
+		handleRequest(req, res).catch((err) => {
+			log(`${req.method} ${req.url}: ${(err as Error).message}`);
+			if (res.headersSent) {
+				res.destroy();
+			} else {
+				sendError(res, 502, (err as Error).message);
+			}
+		});
+	});
+
+	return new Promise((resolve, reject) => {
+		server.once('error', (err: NodeJS.ErrnoException) => {
+			reject(new ProxyError(`Cannot listen on ${host}:${options.port ?? 0}: ${err.code || err.message}`));
+		});
+		server.listen(options.port ?? 0, host, () => {
+			const { port } = server.address() as AddressInfo;
+			allowedHosts = [...new Set([host, ...LOOPBACK_NAMES])].map((name) => `${formatHost(name)}:${port}`);
+			resolve({
+				url: `http://${formatHost(host)}:${port}`,
+				token,
+				close: () => new Promise((done) => {
+					server.close(() => done());
+					server.closeAllConnections();
+				}),
+			});
+		});
+	});
+}
@@ -0,0 +1,26 @@
+// Env values can point at a secret instead of holding it:
+//   ${env:VAR}    read from the parent environment (may be embedded in a larger string)
+//   file:<path>   read from a file (~ expands to the home directory)
+//   cmd:<command> run a credential helper and use its output
+//   vault:<name>  read from the encrypted token vault
+export const VAULT_REF_PREFIX = 'vault:';
+export const FILE_REF_PREFIX = 'file:';
+export const CMD_REF_PREFIX = 'cmd:';
+export const ENV_REF_PATTERN = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+export function isVaultRef(value: string | undefined): boolean {
+	return !!value && value.startsWith(VAULT_REF_PREFIX);
+}
+
+// File and command references read or run something on whichever machine resolves them
+export function isFileOrCommandRef(value: string | undefined): boolean {
+	return !!value && (value.startsWith(FILE_REF_PREFIX) || value.startsWith(CMD_REF_PREFIX));
+}
+
+export function isReference(value: string | undefined): boolean {
+	if (!value) return false;
+	return value.startsWith(VAULT_REF_PREFIX)
+		|| value.startsWith(FILE_REF_PREFIX)
+		|| value.startsWith(CMD_REF_PREFIX)
+		|| new RegExp(ENV_REF_PATTERN.source).test(value);
+}
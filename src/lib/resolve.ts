@@ -0,0 +1,74 @@
+import { execSync } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CMD_REF_PREFIX, ENV_REF_PATTERN, FILE_REF_PREFIX, isVaultRef } from './references.js';
+import { getVaultSecret } from './vault.js';
+
+const COMMAND_TIMEOUT_MS = 10_000;
+
+export class ResolveError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ResolveError';
+	}
+}
+
+function expandHome(filepath: string): string {
+	if (filepath === '~') return os.homedir();
+	if (filepath.startsWith('~/')) return path.join(os.homedir(), filepath.slice(2));
+	return filepath;
+}
+
+function readFileRef(filepath: string): string {
+	const resolved = expandHome(filepath.trim());
+	try {
+		return fs.readFileSync(resolved, 'utf8').replace(/\r?\n$/, '');
+	} catch (err) {
+		throw new ResolveError(`cannot read ${resolved}: ${(err as NodeJS.ErrnoException).code || (err as Error).message}`);
+	}
+}
+
+function runCommandRef(command: string): string {
+	try {
+		return execSync(command, {
+			encoding: 'utf8',
+			timeout: COMMAND_TIMEOUT_MS,
+			stdio: ['ignore', 'pipe', 'pipe'],
+			shell: process.env.SHELL || '/bin/sh',
+		}).replace(/\r?\n$/, '');
+	} catch (err) {
+		const stderr = String((err as { stderr?: string }).stderr || '').trim();
+		throw new ResolveError(`command "${command}" failed${stderr ? `: ${stderr}` : ''}`);
+	}
+}
+
+function interpolateEnvRefs(value: string): string {
+	return value.replace(ENV_REF_PATTERN, (_, name: string) => {
+		const envValue = process.env[name];
+		if (envValue === undefined) {
+			throw new ResolveError(`environment variable ${name} is not set`);
+		}
+		return envValue;
+	});
+}
+
+export function resolveValue(value: string): string {
+	if (isVaultRef(value)) return getVaultSecret(value);
+	if (value.startsWith(FILE_REF_PREFIX)) return readFileRef(value.slice(FILE_REF_PREFIX.length));
+	if (value.startsWith(CMD_REF_PREFIX)) return runCommandRef(value.slice(CMD_REF_PREFIX.length));
+	return interpolateEnvRefs(value);
+}
+
+// Resolve every reference in an env block; the profile itself is never modified.
+export function resolveEnv(env: { [key: string]: string }): { [key: string]: string } {
+	const resolved: { [key: string]: string } = {};
+	for (const [key, value] of Object.entries(env)) {
+		try {
+			resolved[key] = resolveValue(value);
+		} catch (err) {
+			throw new ResolveError(`Cannot resolve ${key}: ${(err as Error).message}`);
+		}
+	}
+	return resolved;
+}
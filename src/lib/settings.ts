@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { getStateDir } from './history.js';
+import { findProjectConfig } from './project.js';
+import { isJsonObject, type JsonObject } from './validate.js';
+
+// Where an applied profile is written: claude's user settings or the project's local settings
+export type SettingsScope = 'user' | 'project';
+
+// What `reset` needs to undo an apply. The original file is backed up once, on the first apply.
+export interface AppliedSettings {
+	settingsPath: string;
+	profile: string;
+	appliedAt: string;
+	// Env keys the last apply set
+	keys: string[];
+	// Whether the settings file existed before the first apply
+	existed: boolean;
+	// sha256 of the file as last written, to notice edits made since without keeping the tokens
+	writtenHash: string;
+}
+
+export class SettingsError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'SettingsError';
+	}
+}
+
+export function getClaudeSettingsPath(scope: SettingsScope, cwd = process.cwd()): string {
+	if (scope === 'user') {
+		const configDir = process.env['CLAUDE_CONFIG_DIR'] || path.join(os.homedir(), '.claude');
+		return path.join(configDir, 'settings.json');
+	}
+	const project = findProjectConfig(cwd);
+	const root = project ? path.dirname(project.path) : cwd;
+	return path.join(root, '.claude', 'settings.local.json');
+}
+
+function getAppliedPath(): string {
+	return path.join(getStateDir(), 'applied.json');
+}
+
+// Backups live in the state dir so they never end up in a project's repository
+function getBackupPath(settingsPath: string): string {
+	const id = crypto.createHash('sha256').update(settingsPath).digest('hex').slice(0, 16);
+	return path.join(getStateDir(), 'settings-backups', `${id}.json`);
+}
+
+function loadApplied(): AppliedSettings[] {
+	try {
+		const data = fs.readJSONSync(getAppliedPath());
+		return Array.isArray(data.applied) ? data.applied : [];
+	} catch {
+		return [];
+	}
+}
+
+function saveApplied(applied: AppliedSettings[]): void {
+	fs.mkdirSync(getStateDir(), { recursive: true });
+	fs.writeJSONSync(getAppliedPath(), { applied }, { spaces: 2, mode: 0o600 });
+	fs.chmodSync(getAppliedPath(), 0o600);
+}
+
+function hashContent(content: string): string {
+	return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function getAppliedSettings(scope: SettingsScope): AppliedSettings | undefined {
+	const settingsPath = getClaudeSettingsPath(scope);
+	return loadApplied().find((entry) => entry.settingsPath === settingsPath);
+}
+
+// claude's settings as parsed; only `env` is looked into
+type ClaudeSettings = JsonObject & { env?: JsonObject };
+
+function readSettings(settingsPath: string): ClaudeSettings {
+	if (!fs.existsSync(settingsPath)) return {};
+	let data: unknown;
+	try {
+		data = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+	} catch (err) {
+		throw new SettingsError(`Cannot read ${settingsPath}: ${(err as Error).message}`);
+	}
+	if (!isJsonObject(data)) {
+		throw new SettingsError(`${settingsPath} does not hold a JSON object`);
+	}
+	const { env } = data;
+	if (env !== undefined && !isJsonObject(env)) {
+		throw new SettingsError(`"env" in ${settingsPath} is not an object`);
+	}
+	return { ...data, env };
+}
+
+// The string values in the `env` block of claude's settings file for `scope`; empty when
+// the file doesn't exist.
+export function readSettingsEnv(scope: SettingsScope): { settingsPath: string; env: { [key: string]: string } } {
+	const settingsPath = getClaudeSettingsPath(scope);
+	const env = Object.entries(readSettings(settingsPath).env || {})
+		.filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+	return { settingsPath, env: Object.fromEntries(env) };
+}
+
+// `env` with each of `keys` put back to its value in `originalEnv`, or removed when it had none
+function restoreKeys(env: JsonObject, keys: string[], originalEnv: JsonObject): JsonObject {
+	const restored: JsonObject = { ...env };
+	for (const key of keys) {
+		if (key in originalEnv) {
+			restored[key] = originalEnv[key];
+		} else {
+			delete restored[key];
+		}
+	}
+	return restored;
+}
+
+// Merges a resolved env block into the settings' `env`, leaving every other setting alone.
+// Keys set by a previous apply that the new profile doesn't set go back to their original values.
+export function applyEnvToSettings(scope: SettingsScope, profileKey: string, env: { [key: string]: string }): string {
+	const settingsPath = getClaudeSettingsPath(scope);
+	const settings = readSettings(settingsPath);
+	const applied = loadApplied();
+	const previous = applied.find((entry) => entry.settingsPath === settingsPath);
+	const backupPath = getBackupPath(settingsPath);
+	const existed = previous ? previous.existed : fs.existsSync(settingsPath);
+
+	if (!previous && existed) {
+		fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+		fs.copyFileSync(settingsPath, backupPath);
+		fs.chmodSync(backupPath, 0o600);
+	}
+	// Only needed to undo the previous apply's keys
+	const originalEnv = previous?.existed ? readSettings(backupPath).env || {} : {};
+
+	const merged = restoreKeys(settings.env || {}, previous?.keys || [], originalEnv);
+	const written = JSON.stringify({ ...settings, env: { ...merged, ...env } }, null, 2) + '\n';
+
+	fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+	// The env block carries tokens, so the file is made private even if it already existed
+	fs.writeFileSync(settingsPath, written, { mode: 0o600 });
+	fs.chmodSync(settingsPath, 0o600);
+	saveApplied([
+		...applied.filter((entry) => entry !== previous),
+		{
+			settingsPath,
+			profile: profileKey,
+			appliedAt: new Date().toISOString(),
+			keys: Object.keys(env),
+			existed,
+			writtenHash: hashContent(written),
+		},
+	]);
+	return settingsPath;
+}
+
+// Puts the settings file back as it was before the first apply. Refuses when the file
+// was edited since, unless forced; forcing then only undoes the keys the last apply set,
+// so those edits are kept (`keptEdits`).
+export function resetSettings(scope: SettingsScope, force = false): { entry: AppliedSettings; keptEdits: boolean } {
+	const settingsPath = getClaudeSettingsPath(scope);
+	const applied = loadApplied();
+	const entry = applied.find((e) => e.settingsPath === settingsPath);
+	if (!entry) {
+		throw new SettingsError(`No profile has been applied to ${settingsPath}`);
+	}
+	const current = fs.existsSync(settingsPath) ? fs.readFileSync(settingsPath, 'utf8') : null;
+	const keptEdits = current !== null && hashContent(current) !== entry.writtenHash;
+	if (keptEdits && !force) {
+		throw new SettingsError(`${settingsPath} changed since ${entry.profile} was applied (pass --force to revert only the profile's env keys)`);
+	}
+
+	const backupPath = getBackupPath(settingsPath);
+	if (keptEdits) {
+		const original = entry.existed ? readSettings(backupPath) : {};
+		const { env, ...settings } = readSettings(settingsPath);
+		const restored = restoreKeys(env || {}, entry.keys, original.env || {});
+		const result: JsonObject = Object.keys(restored).length > 0 || original.env ? { ...settings, env: restored } : settings;
+		if (!entry.existed && Object.keys(result).length === 0) {
+			fs.removeSync(settingsPath);
+		} else {
+			fs.writeFileSync(settingsPath, JSON.stringify(result, null, 2) + '\n');
+		}
+	} else if (entry.existed) {
+		fs.copyFileSync(backupPath, settingsPath);
+	} else {
+		fs.removeSync(settingsPath);
+	}
+	fs.removeSync(backupPath);
+	saveApplied(applied.filter((e) => e !== entry));
+	return { entry, keptEdits };
+}
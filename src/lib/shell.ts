@@ -0,0 +1,97 @@
+const SAFE_ARG_PATTERN = /^[A-Za-z0-9_\-+=.,/:@%]+$/;
+
+// Quote a single argument for a POSIX-style shell (sh, bash, zsh, fish).
+export function quoteShellArg(value: string): string {
+	if (SAFE_ARG_PATTERN.test(value)) return value;
+	return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function formatShellArgs(args: string[]): string {
+	return args.map(quoteShellArg).join(' ');
+}
+
+// Split a command-line string into arguments, honouring quotes and backslashes.
+export function splitShellArgs(input: string): string[] {
+	const args: string[] = [];
+	let current = '';
+	let hasCurrent = false;
+	let quote: '"' | "'" | null = null;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (quote) {
+			if (char === quote) {
+				quote = null;
+			} else if (char === '\\' && quote === '"' && i + 1 < input.length) {
+				current += input[++i];
+			} else {
+				current += char;
+			}
+		} else if (char === '"' || char === "'") {
+			quote = char;
+			hasCurrent = true;
+		} else if (char === '\\' && i + 1 < input.length) {
+			current += input[++i];
+			hasCurrent = true;
+		} else if (/\s/.test(char)) {
+			if (hasCurrent) args.push(current);
+			current = '';
+			hasCurrent = false;
+		} else {
+			current += char;
+			hasCurrent = true;
+		}
+	}
+	if (hasCurrent) args.push(current);
+	return args;
+}
+
+export const ENV_SHELLS = ['bash', 'zsh', 'fish', 'pwsh', 'dotenv'] as const;
+export type EnvShell = typeof ENV_SHELLS[number];
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function isValidEnvKey(key: string): boolean {
+	return ENV_KEY_PATTERN.test(key);
+}
+
+// Guess the shell to format for from $SHELL (or the platform on Windows).
+export function detectEnvShell(): EnvShell {
+	if (process.platform === 'win32' && !process.env.SHELL) return 'pwsh';
+	const name = (process.env.SHELL || '').split('/').pop() || '';
+	return (ENV_SHELLS as readonly string[]).includes(name) ? name as EnvShell : 'bash';
+}
+
+function formatEnvLine(shell: EnvShell, key: string, value: string): string {
+	switch (shell) {
+		case 'fish':
+			return `set -gx ${key} '${value.replace(/[\\']/g, '\\$&')}';`;
+		case 'pwsh':
+			return `$env:${key} = '${value.replace(/'/g, "''")}'`;
+		case 'dotenv':
+			return `${key}="${value.replace(/[\\"$]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+		default:
+			return `export ${key}=${quoteShellArg(value)}`;
+	}
+}
+
+function formatUnsetLine(shell: EnvShell, key: string): string {
+	switch (shell) {
+		case 'fish':
+			return `set -e ${key};`;
+		case 'pwsh':
+			return `Remove-Item Env:${key} -ErrorAction SilentlyContinue`;
+		case 'dotenv':
+			return `${key}=`;
+		default:
+			return `unset ${key}`;
+	}
+}
+
+export function formatEnvExports(env: { [key: string]: string }, shell: EnvShell): string {
+	return Object.entries(env).map(([key, value]) => formatEnvLine(shell, key, value)).join('\n');
+}
+
+export function formatEnvUnset(keys: string[], shell: EnvShell): string {
+	return keys.map((key) => formatUnsetLine(shell, key)).join('\n');
+}
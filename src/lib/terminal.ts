@@ -1,7 +1,40 @@
 import { spawn } from 'child_process';
 import type { Profile } from '../types.js';
+import { recordLaunch } from './history.js';
+import {
+	getChainProfiles,
+	getProxyClientEnv,
+	getProxyUpstreams,
+	recordProxyUsage,
+	startProxy,
+} from './proxy.js';
+import { quoteShellArg } from './shell.js';
+import { resolveEnv } from './resolve.js';
+import { SettingsError, applyEnvToSettings, type SettingsScope } from './settings.js';
+import { isUsageRecordingEnabled } from './usage.js';
+
+// Set in the spawned environment so `claudeprofile current` can report it.
+export const ACTIVE_PROFILE_ENV = 'CLAUDEPROFILE_ACTIVE';
+
+export async function runProfileInCurrentTerminal(profile: Profile, extraArgs: string[] = []): Promise<void> {
+	// Resolve references first so failures surface before the terminal is handed over
+	const profileEnv = resolveEnv(profile.env);
+	const env = {
+		...process.env,
+		...profileEnv,
+		[ACTIVE_PROFILE_ENV]: profile.fileKey || profile.name,
+	};
+
+	// Chains and usage recording run a local proxy in this process for as long as claude does
+	const recording = isUsageRecordingEnabled();
+	if (profile.chain || recording) {
+		const upstreams = profile.chain
+			? getProxyUpstreams(getChainProfiles(profile))
+			: [{ name: profile.fileKey || profile.name, provider: profile.provider, env: profileEnv }];
+		const proxy = await startProxy(upstreams, { onUsage: recording ? recordProxyUsage : undefined });
+		Object.assign(env, getProxyClientEnv(proxy, upstreams, env['ANTHROPIC_CUSTOM_HEADERS']));
+	}
 
-export function runProfileInCurrentTerminal(profile: Profile): void {
 	// Restore terminal to normal (cooked) mode before spawning child
 	// This is critical: we need to release stdin so the child has exclusive access
 	if (process.stdin.isTTY) {
@@ -12,19 +45,41 @@ export function runProfileInCurrentTerminal(profile: Profile): void {
 	}
 
 	const claudePath = process.env['CLAUDE_PATH'] || 'claude';
-	const env = { ...process.env, ...profile.env };
 
-	const child = spawn(claudePath, {
+	// The command line goes through the user's shell, so quote every argument
+	const args = [...(profile.args || []), ...extraArgs].map(quoteShellArg);
+
+	const startedAt = new Date().toISOString();
+	const child = spawn(claudePath, args, {
 		stdio: 'inherit',
 		env,
 		shell: process.env.SHELL || '/bin/zsh',
 	});
 
 	child.on('exit', (code) => {
+		try {
+			recordLaunch({
+				profile: profile.fileKey || profile.name,
+				name: profile.name,
+				startedAt,
+				cwd: process.cwd(),
+				exitCode: code,
+			});
+		} catch {}
 		process.exit(code ?? 0);
 	});
 }
 
+// The persistent alternative to spawning: every claude session (IDE integrations included)
+// picks the env up from its settings file. Returns the file written.
+export function applyProfileToSettings(profile: Profile, scope: SettingsScope): string {
+	if (profile.chain) {
+		throw new SettingsError(`Profile "${profile.name}" is a chain, which needs its proxy running; launch it instead`);
+	}
+	const fileKey = profile.fileKey || profile.name;
+	return applyEnvToSettings(scope, fileKey, { ...resolveEnv(profile.env), [ACTIVE_PROFILE_ENV]: fileKey });
+}
+
 export function restoreInkInput(): void {
 	if (process.stdin.isTTY) {
 		try {
@@ -0,0 +1,195 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { ModelPrice } from '../types.js';
+import { getStateDir } from './history.js';
+import { isJsonObject } from './validate.js';
+
+// Set to 1 to route every launch through a local relay that records token usage
+export const USAGE_RECORDING_ENV = 'CLAUDEPROFILE_RECORD_USAGE';
+
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cacheReadTokens: number;
+	cacheWriteTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+	at: string;
+	// Profile file key and its provider id at the time of the request
+	profile: string;
+	provider: string;
+	model: string;
+}
+
+export type UsageGrouping = 'day' | 'profile' | 'model';
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'profile', 'model'];
+
+export interface UsageSummary extends TokenUsage {
+	key: string;
+	requests: number;
+	// USD for the requests with a known price
+	cost: number;
+	unpriced: number;
+}
+
+export function isUsageRecordingEnabled(): boolean {
+	const value = process.env[USAGE_RECORDING_ENV];
+	return !!value && value !== '0' && value !== 'false';
+}
+
+function getUsagePath(): string {
+	return path.join(getStateDir(), 'usage.jsonl');
+}
+
+function isUsageEntry(value: unknown): value is UsageEntry {
+	return isJsonObject(value) && typeof value.at === 'string' && typeof value.profile === 'string' && typeof value.model === 'string';
+}
+
+// Oldest first; unreadable lines are skipped.
+export function loadUsage(): UsageEntry[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(getUsagePath(), 'utf8');
+	} catch {
+		return [];
+	}
+	const entries: UsageEntry[] = [];
+	for (const line of content.split('\n')) {
+		if (!line.trim()) continue;
+		try {
+			const entry = JSON.parse(line);
+			if (isUsageEntry(entry)) entries.push(entry);
+		} catch {}
+	}
+	return entries;
+}
+
+export function recordUsage(entry: UsageEntry): void {
+	fs.mkdirSync(getStateDir(), { recursive: true });
+	fs.appendFileSync(getUsagePath(), JSON.stringify(entry) + '\n');
+}
+
+// Keep a renamed profile's usage attached to it.
+export function renameInUsage(oldKey: string, newKey: string): void {
+	const entries = loadUsage();
+	if (!entries.some((entry) => entry.profile === oldKey)) return;
+	fs.writeFileSync(getUsagePath(), entries
+		.map((entry) => JSON.stringify(entry.profile === oldKey ? { ...entry, profile: newKey } : entry) + '\n')
+		.join(''));
+}
+
+// Reads `usage` from a Messages API response as it streams by. Streamed responses report
+// input tokens in `message_start` and cumulative output tokens in each `message_delta`.
+export function createUsageParser(streaming: boolean) {
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let model = '';
+	const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+	let found = false;
+
+	const apply = (data: unknown) => {
+		if (!isJsonObject(data)) return;
+		if (typeof data.model === 'string') model = data.model;
+		const counts = data.usage;
+		if (!isJsonObject(counts)) return;
+		found = true;
+		if (typeof counts.input_tokens === 'number') usage.inputTokens = counts.input_tokens;
+		if (typeof counts.output_tokens === 'number') usage.outputTokens = counts.output_tokens;
+		if (typeof counts.cache_read_input_tokens === 'number') usage.cacheReadTokens = counts.cache_read_input_tokens;
+		if (typeof counts.cache_creation_input_tokens === 'number') usage.cacheWriteTokens = counts.cache_creation_input_tokens;
+	};
+
+	const parseEventLine = (line: string) => {
+		if (!line.startsWith('data:')) return;
+		try {
+			const event = JSON.parse(line.slice(5));
+			apply(isJsonObject(event) && event.type === 'message_start' ? event.message : event);
+		} catch {}
+	};
+
+	return {
+		push(chunk: Uint8Array) {
+			buffer += decoder.decode(chunk, { stream: true });
+			if (!streaming) return;
+			const lines = buffer.split('\n');
+			buffer = lines.pop() || '';
+			for (const line of lines) parseEventLine(line.trim());
+		},
+		// Returns null when the response carried no usage
+		finish(): (TokenUsage & { model: string }) | null {
+			buffer += decoder.decode();
+			if (streaming) {
+				parseEventLine(buffer.trim());
+			} else {
+				try {
+					apply(JSON.parse(buffer));
+				} catch {}
+			}
+			return found ? { ...usage, model } : null;
+		},
+	};
+}
+
+// Cache reads and writes fall back to the input price when the table doesn't list them.
+export function getUsageCost(usage: TokenUsage, price: ModelPrice): number {
+	return (usage.inputTokens * price.input
+		+ usage.outputTokens * price.output
+		+ usage.cacheReadTokens * (price.cacheRead ?? price.input)
+		+ usage.cacheWriteTokens * (price.cacheWrite ?? price.input)) / 1_000_000;
+}
+
+function getLocalDay(iso: string): string {
+	const date = new Date(iso);
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Days newest first; profiles and models by cost, then by tokens.
+export function summarizeUsage(
+	entries: UsageEntry[],
+	by: UsageGrouping,
+	getPrice: (entry: UsageEntry) => ModelPrice | undefined,
+): UsageSummary[] {
+	const groups = new Map<string, UsageSummary>();
+	for (const entry of entries) {
+		const key = by === 'day' ? getLocalDay(entry.at) : by === 'profile' ? entry.profile : entry.model || 'unknown';
+		const group = groups.get(key)
+			|| { key, requests: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, cost: 0, unpriced: 0 };
+		group.requests++;
+		group.inputTokens += entry.inputTokens;
+		group.outputTokens += entry.outputTokens;
+		group.cacheReadTokens += entry.cacheReadTokens;
+		group.cacheWriteTokens += entry.cacheWriteTokens;
+		const price = getPrice(entry);
+		if (price) {
+			group.cost += getUsageCost(entry, price);
+		} else {
+			group.unpriced++;
+		}
+		groups.set(key, group);
+	}
+	const totalTokens = (s: UsageSummary) => s.inputTokens + s.outputTokens + s.cacheReadTokens + s.cacheWriteTokens;
+	return [...groups.values()].sort((a, b) => by === 'day'
+		? b.key.localeCompare(a.key)
+		: b.cost - a.cost || totalTokens(b) - totalTokens(a));
+}
+
+// Entries from the last `days` days, counting today.
+export function filterUsageByDays(entries: UsageEntry[], days: number, now = new Date()): UsageEntry[] {
+	const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1)).getTime();
+	return entries.filter((entry) => Date.parse(entry.at) >= since);
+}
+
+export function formatTokens(count: number): string {
+	if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+	if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+	return String(count);
+}
+
+// "-" when nothing in the group has a price, "*" when only part of it does.
+export function formatCost(summary: UsageSummary): string {
+	if (summary.unpriced === summary.requests) return '-';
+	const digits = summary.cost > 0 && summary.cost < 0.01 ? 4 : 2;
+	return `$${summary.cost.toFixed(digits)}${summary.unpriced > 0 ? '*' : ''}`;
+}
@@ -0,0 +1,85 @@
+import { KNOWN_CLAUDE_ENV } from './claude-env.js';
+import { isReference } from './references.js';
+import { isValidEnvKey } from './shell.js';
+
+// Keys the profile forms manage that hold URLs
+const URL_KEYS = ['ANTHROPIC_BASE_URL', 'PROVIDER_AUTH_URL'];
+
+// Parsed JSON that is an object, before its fields are checked
+export type JsonObject = { [key: string]: unknown };
+
+export function isJsonObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function getEnvFormat(key: string): 'url' | 'integer' | undefined {
+	if (URL_KEYS.includes(key)) return 'url';
+	return KNOWN_CLAUDE_ENV.find((entry) => entry.key === key)?.format;
+}
+
+export function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+function validateEnvValue(key: string, value: string): string | null {
+	// Empty values and references are only known at launch
+	if (!value || isReference(value)) return null;
+	const format = getEnvFormat(key);
+	if (format === 'url' && !isHttpUrl(value)) {
+		return `env.${key} must be an http(s) URL, got "${value}"`;
+	}
+	if (format === 'integer' && !/^\d+$/.test(value)) {
+		return `env.${key} must be a whole number, got "${value}"`;
+	}
+	return null;
+}
+
+// Check a parsed profile file against the profile schema; returns one message per problem.
+export function validateProfileData(data: unknown): string[] {
+	if (!isJsonObject(data)) {
+		return ['Profile must be a JSON object'];
+	}
+	const profile = data;
+	const errors: string[] = [];
+
+	if (typeof profile.name !== 'string' || !profile.name.trim()) {
+		errors.push('"name" is required and must be a non-empty string');
+	}
+	if (profile.provider !== undefined && typeof profile.provider !== 'string') {
+		errors.push('"provider" must be a string');
+	}
+	if (profile.extends !== undefined && typeof profile.extends !== 'string') {
+		errors.push('"extends" must be a profile file key');
+	}
+	if (profile.args !== undefined
+		&& (!Array.isArray(profile.args) || profile.args.some((arg) => typeof arg !== 'string'))) {
+		errors.push('"args" must be an array of strings');
+	}
+	if (profile.chain !== undefined
+		&& (!Array.isArray(profile.chain) || profile.chain.length === 0 || profile.chain.some((key) => typeof key !== 'string'))) {
+		errors.push('"chain" must be a non-empty array of profile file keys');
+	}
+
+	const env = profile.env;
+	if (!isJsonObject(env)) {
+		errors.push('"env" is required and must be an object');
+		return errors;
+	}
+	for (const [key, value] of Object.entries(env)) {
+		if (!isValidEnvKey(key)) {
+			errors.push(`env key "${key}" is not a valid variable name`);
+		}
+		if (typeof value !== 'string') {
+			errors.push(`env.${key} must be a string, got ${value === null ? 'null' : typeof value}`);
+			continue;
+		}
+		const formatError = validateEnvValue(key, value);
+		if (formatError) errors.push(formatError);
+	}
+	return errors;
+}
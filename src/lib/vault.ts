@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import type { Profile } from '../types.js';
+import { getStateDir } from './history.js';
+import { isSecretKey } from './mask.js';
+import { getProfilesDir, loadProfiles, saveProfile, slugify } from './profiles.js';
+import { VAULT_REF_PREFIX, isReference, isVaultRef } from './references.js';
+
+// Profiles reference vault entries as "vault:<fileKey>/<ENV_KEY>"
+export const VAULT_PASSPHRASE_ENV = 'CLAUDEPROFILE_VAULT_PASSPHRASE';
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+export class VaultError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'VaultError';
+	}
+}
+
+interface VaultFile {
+	version: 1;
+	kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+	cipher: 'aes-256-gcm';
+	iv: string;
+	tag: string;
+	data: string;
+}
+
+interface UnlockedVault {
+	key: Buffer;
+	file: VaultFile;
+	secrets: { [ref: string]: string };
+}
+
+let unlocked: UnlockedVault | null = null;
+
+export function getVaultPath(): string {
+	return path.join(getProfilesDir(), 'tokens.vault');
+}
+
+// Short-lived key cache written by `vault unlock`, removed by `vault lock`. It holds the raw
+// key, so it goes in the user's runtime dir or their own state dir, never the shared temp dir.
+function getSessionPath(): string {
+	const runtimeDir = process.env['XDG_RUNTIME_DIR'];
+	if (!runtimeDir) return path.join(getStateDir(), 'vault.session');
+	return path.join(runtimeDir, `claudeprofile-vault-${slugify(os.userInfo().username)}.session`);
+}
+
+export function vaultExists(): boolean {
+	return fs.existsSync(getVaultPath());
+}
+
+export function profileUsesVault(profile: Profile): boolean {
+	return Object.values(profile.env).some(isVaultRef);
+}
+
+function deriveKey(passphrase: string, kdf: VaultFile['kdf']): Buffer {
+	return crypto.scryptSync(passphrase, Buffer.from(kdf.salt, 'base64'), KEY_LENGTH, {
+		N: kdf.N,
+		r: kdf.r,
+		p: kdf.p,
+		maxmem: 128 * kdf.N * kdf.r * 2,
+	});
+}
+
+function encrypt(key: Buffer, kdf: VaultFile['kdf'], secrets: { [ref: string]: string }): VaultFile {
+	const iv = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+	const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+	return {
+		version: 1,
+		kdf,
+		cipher: 'aes-256-gcm',
+		iv: iv.toString('base64'),
+		tag: cipher.getAuthTag().toString('base64'),
+		data: data.toString('base64'),
+	};
+}
+
+function decrypt(key: Buffer, file: VaultFile): { [ref: string]: string } {
+	try {
+		const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+		decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+		const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+		return JSON.parse(data.toString('utf8'));
+	} catch {
+		throw new VaultError('Wrong passphrase or corrupted vault');
+	}
+}
+
+function readVaultFile(): VaultFile {
+	if (!vaultExists()) {
+		throw new VaultError('No vault found. Run "claudeprofile vault init" first.');
+	}
+	try {
+		return fs.readJSONSync(getVaultPath());
+	} catch {
+		throw new VaultError(`Cannot read vault file ${getVaultPath()}`);
+	}
+}
+
+function writeVaultFile(file: VaultFile): void {
+	fs.mkdirSync(getProfilesDir(), { recursive: true });
+	fs.writeJSONSync(getVaultPath(), file, { spaces: 2, mode: 0o600 });
+}
+
+export function createVault(passphrase: string): void {
+	if (vaultExists()) {
+		throw new VaultError(`A vault already exists at ${getVaultPath()}`);
+	}
+	const kdf = { name: 'scrypt' as const, salt: crypto.randomBytes(16).toString('base64'), ...SCRYPT_PARAMS };
+	const key = deriveKey(passphrase, kdf);
+	const file = encrypt(key, kdf, {});
+	writeVaultFile(file);
+	unlocked = { key, file, secrets: {} };
+}
+
+export function unlockVault(passphrase: string): void {
+	const file = readVaultFile();
+	const key = deriveKey(passphrase, file.kdf);
+	unlocked = { key, file, secrets: decrypt(key, file) };
+}
+
+function unlockFromSession(): boolean {
+	const sessionPath = getSessionPath();
+	if (!fs.existsSync(sessionPath)) return false;
+	try {
+		const session = fs.readJSONSync(sessionPath);
+		if (session.vault !== getVaultPath() || Date.now() > session.expires) {
+			fs.removeSync(sessionPath);
+			return false;
+		}
+		const file = readVaultFile();
+		const key = Buffer.from(session.key, 'base64');
+		unlocked = { key, file, secrets: decrypt(key, file) };
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Unlocked in this process, via a cached session, or via the passphrase env variable.
+export function isVaultUnlocked(): boolean {
+	if (unlocked) return true;
+	if (!vaultExists()) return false;
+	if (unlockFromSession()) return true;
+	const passphrase = process.env[VAULT_PASSPHRASE_ENV];
+	if (passphrase) {
+		unlockVault(passphrase);
+		return true;
+	}
+	return false;
+}
+
+export function saveVaultSession(ttlMs: number): void {
+	if (!unlocked) throw new VaultError('Vault is locked');
+	fs.mkdirSync(path.dirname(getSessionPath()), { recursive: true, mode: 0o700 });
+	fs.writeJSONSync(getSessionPath(), {
+		vault: getVaultPath(),
+		key: unlocked.key.toString('base64'),
+		expires: Date.now() + ttlMs,
+	}, { mode: 0o600 });
+}
+
+export function lockVault(): void {
+	unlocked = null;
+	fs.removeSync(getSessionPath());
+}
+
+function requireUnlocked(): UnlockedVault {
+	if (!isVaultUnlocked() || !unlocked) {
+		throw new VaultError('Vault is locked');
+	}
+	return unlocked;
+}
+
+export function getVaultSecret(ref: string): string {
+	const vault = requireUnlocked();
+	const name = ref.slice(VAULT_REF_PREFIX.length);
+	if (!(name in vault.secrets)) {
+		throw new VaultError(`Vault has no entry "${name}"`);
+	}
+	return vault.secrets[name];
+}
+
+// Stores a secret and returns the reference to put in the profile.
+export function setVaultSecret(name: string, value: string): string {
+	const vault = requireUnlocked();
+	vault.secrets = { ...vault.secrets, [name]: value };
+	vault.file = encrypt(vault.key, vault.file.kdf, vault.secrets);
+	writeVaultFile(vault.file);
+	return VAULT_REF_PREFIX + name;
+}
+
+export function vaultSecretName(fileKey: string, envKey: string): string {
+	return `${fileKey}/${envKey}`;
+}
+
+export function resolveVaultRefs(env: { [key: string]: string }): { [key: string]: string } {
+	const resolved: { [key: string]: string } = {};
+	for (const [key, value] of Object.entries(env)) {
+		resolved[key] = isVaultRef(value) ? getVaultSecret(value) : value;
+	}
+	return resolved;
+}
+
+// Moves a profile's plaintext secret-looking values into the vault and returns it with references.
+export function storeProfileSecrets(profile: Profile): Profile {
+	requireUnlocked();
+	const fileKey = profile.fileKey || slugify(profile.name);
+	const env = { ...profile.env };
+	for (const [key, value] of Object.entries(env)) {
+		if (!isSecretKey(key) || !value || isReference(value)) continue;
+		// The parent profile owns inherited values
+		if (profile.inheritedEnv?.[key] === value) continue;
+		env[key] = setVaultSecret(vaultSecretName(fileKey, key), value);
+	}
+	return { ...profile, env };
+}
+
+// Migrates every saved profile; returns the "fileKey/KEY" names moved.
+export function migrateProfilesToVault(): string[] {
+	const moved: string[] = [];
+	for (const profile of loadProfiles()) {
+		const stored = storeProfileSecrets(profile);
+		const changed = Object.keys(stored.env).filter((key) => stored.env[key] !== profile.env[key]);
+		if (changed.length === 0) continue;
+		saveProfile(stored);
+		moved.push(...changed.map((key) => stored.env[key].slice(VAULT_REF_PREFIX.length)));
+	}
+	return moved;
+}
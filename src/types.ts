@@ -2,16 +2,37 @@ export interface Profile {
 	name: string;
 	provider: string;
 	env: { [key: string]: string };
+	// Default arguments passed to claude on every launch
+	args?: string[];
+	// File key of a parent profile whose values this one inherits
+	extends?: string;
+	// File keys of the profiles a local proxy fails over between, in order
+	chain?: string[];
 	fileKey?: string;
+	// Set by loadProfiles for profiles that extend another one
+	inheritedEnv?: { [key: string]: string };
+	extendsError?: string;
+	// Set by loadProfiles for profiles defined in a shared source (see CLAUDE_PROFILES_PATH):
+	// the highest-precedence shared source, and the source of each own env value
+	sharedSource?: string;
+	envSources?: { [key: string]: string };
 }
 
-export type View = 'main' | 'switch' | 'configure' | 'list';
+// A profile file that failed to parse or validate
+export interface ProfileProblem {
+	file: string;
+	fileKey: string;
+	errors: string[];
+}
+
+export type View = 'main' | 'switch' | 'configure' | 'list' | 'history' | 'usage';
 
 export interface OnboardingData {
 	profileName: string;
-	token: string;
-	baseUrl: string;
-	model: string;
+	env: { [key: string]: string };
+	args: string[];
+	// Only for chain profiles
+	chain?: string[];
 }
 
 export interface CustomProviderData {
@@ -24,3 +45,46 @@ export interface CustomProviderData {
 	authInstructions?: string;
 	token: string;
 }
+
+// An env variable the profile editor asks for, as declared by a provider.
+export interface ProviderField {
+	key: string;
+	label: string;
+	default?: string;
+	secret?: boolean;
+	required?: boolean;
+	// Regular expression source the value must match when non-empty
+	pattern?: string;
+	// Completes "<label> …" when the pattern doesn't match, e.g. "must start with sk-ant-"
+	patternHint?: string;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+	input: number;
+	output: number;
+	// Default to the input price
+	cacheRead?: number;
+	cacheWrite?: number;
+}
+
+// Claude's model tiers, each set through its own env variable
+export type ModelTier = 'opus' | 'sonnet' | 'haiku' | 'smallFast';
+
+export interface ProviderDefinition {
+	id: string;
+	name: string;
+	description?: string;
+	baseUrl: string;
+	defaultModel: string;
+	authUrl?: string;
+	authInstructions?: string;
+	// Path of a model listing endpoint, relative to baseUrl (e.g. "/v1/models")
+	modelsEndpoint?: string;
+	// Extra env keys (or overrides of the standard ones) for this provider
+	fields?: ProviderField[];
+	// Provider models to use for each Claude tier, pre-filled in the profile editor
+	modelMapping?: { [tier in ModelTier]?: string };
+	// Prices by model id; an id also covers dated variants that start with it
+	prices?: { [model: string]: ModelPrice };
+}
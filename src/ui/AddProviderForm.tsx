@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Box, Newline, Text, useInput, useStdin } from 'ink';
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
 import type { CustomProviderData } from '../types.js';
-import { slugify } from '../lib/profiles.js';
+import { getTargetFileKey, loadProfiles, slugify } from '../lib/profiles.js';
+import { getBaseUrlWarning } from '../lib/providers.js';
+import { isHttpUrl } from '../lib/validate.js';
+import { TextInput } from './TextInput.js';
 
 export function AddProviderForm({
 	onComplete,
@@ -12,6 +15,9 @@ export function AddProviderForm({
 }) {
 	const [activeIndex, setActiveIndex] = useState(0);
 	const [error, setError] = useState<string | null>(null);
+	// Empty required fields are only flagged once saving was attempted
+	const [submitted, setSubmitted] = useState(false);
+	const [profiles] = useState(loadProfiles);
 	const [values, setValues] = useState({
 		providerName: '',
 		profileName: '',
@@ -22,102 +28,36 @@ export function AddProviderForm({
 		authInstructions: '',
 	});
 
-	const { stdin } = useStdin();
-	const pasteTimeout = useRef<NodeJS.Timeout | null>(null);
-
 	const fields = [
 		{ key: 'providerName', label: 'Provider name' },
 		{ key: 'profileName', label: 'Profile name' },
 		{ key: 'baseUrl', label: 'Base URL' },
-		{ key: 'model', label: 'Model' },
-		{ key: 'token', label: 'API Token' },
+		{ key: 'model', label: 'Model (optional)' },
+		{ key: 'token', label: 'API Token', secret: true },
 		{ key: 'authUrl', label: 'Auth URL (optional)' },
 		{ key: 'authInstructions', label: 'Auth instructions (optional)' },
 	] as const;
 
-	// Handle paste using bracketed paste mode (\x1b[200~ ... \x1b[201~)
-	useEffect(() => {
-		if (!stdin) return;
-
-		let inBracketedPaste = false;
-		let currentPaste = '';
-
-		const handleData = (data: Buffer) => {
-			const str = data.toString();
-
-			// Check for bracketed paste start
-			if (str.includes('\x1b[200~')) {
-				inBracketedPaste = true;
-				currentPaste = str.split('\x1b[200~')[1] || '';
-				return;
-			}
-
-			// Check for bracketed paste end
-			if (str.includes('\x1b[201~')) {
-				if (inBracketedPaste) {
-					const parts = str.split('\x1b[201~');
-					currentPaste += parts[0] || '';
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + currentPaste,
-					}));
-				}
-				inBracketedPaste = false;
-				currentPaste = '';
-				return;
-			}
-
-			// Handle paste mode (Ctrl+V sends 0x16)
-			if (inBracketedPaste) {
-				currentPaste += str;
-				return;
-			}
-
-			// Check for 0x16 paste
-			if (str.includes('\x16')) {
-				const parts = str.split('\x16');
-				if (parts[0]) {
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + parts[0],
-					}));
-				}
-				const pasted = parts.slice(1).join('').replace(/[\r\n]/g, '');
-				if (pasted) {
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + pasted,
-					}));
-				}
-				return;
-			}
-
-			// Fast typing detection - if many chars arrive at once, it's likely a paste
-			if (str.length > 3 && !str.includes('\x1b')) {
-				if (pasteTimeout.current) {
-					clearTimeout(pasteTimeout.current);
-				}
-				pasteTimeout.current = setTimeout(() => {
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + str,
-					}));
-				}, 10);
-			}
-		};
-
-		stdin.on('data', handleData);
-		return () => {
-			stdin.off('data', handleData);
-			if (pasteTimeout.current) {
-				clearTimeout(pasteTimeout.current);
-			}
-		};
-	}, [stdin, activeIndex, fields]);
+	const problems: { [key: string]: string } = {};
+	if (!values.providerName.trim()) problems.providerName = 'Provider name is required';
+	const profileName = values.profileName.trim() || values.providerName.trim();
+	if (profileName) {
+		try {
+			getTargetFileKey(profileName, undefined, profiles);
+		} catch (err) {
+			problems.profileName = (err as Error).message;
+		}
+	}
+	if (!values.baseUrl.trim()) {
+		problems.baseUrl = 'Base URL is required';
+	} else if (!isHttpUrl(values.baseUrl.trim())) {
+		problems.baseUrl = 'Base URL must be an http(s) URL';
+	}
+	if (!values.token.trim()) problems.token = 'API Token is required';
+	if (values.authUrl.trim() && !isHttpUrl(values.authUrl.trim())) {
+		problems.authUrl = 'Auth URL must be an http(s) URL';
+	}
+	const warnings: { [key: string]: string | null } = { baseUrl: getBaseUrlWarning(values.baseUrl) };
 
 	useInput((input, key) => {
 		if (key.escape) {
@@ -125,23 +65,21 @@ export function AddProviderForm({
 			return;
 		}
 		if (key.return || input === '\r' || input === '\n') {
-			const providerName = values.providerName.trim();
-			const baseUrl = values.baseUrl.trim();
-			const token = values.token.trim();
-			if (!providerName || !baseUrl || !token) {
-				setError('Provider name, Base URL, and Token are required');
+			setSubmitted(true);
+			if (Object.keys(problems).length > 0) {
+				setError('Fix the fields marked ✗ to save');
 				return;
 			}
-			const profileName = values.profileName.trim() || providerName;
+			const providerName = values.providerName.trim();
 			onComplete({
 				profileName,
 				providerId: slugify(providerName),
 				providerName,
-				baseUrl,
-				defaultModel: values.model.trim() || 'model',
+				baseUrl: values.baseUrl.trim(),
+				defaultModel: values.model.trim(),
 				authUrl: values.authUrl.trim() || undefined,
 				authInstructions: values.authInstructions.trim() || undefined,
-				token,
+				token: values.token.trim(),
 			});
 			return;
 		}
@@ -153,23 +91,6 @@ export function AddProviderForm({
 			setActiveIndex((activeIndex - 1 + fields.length) % fields.length);
 			return;
 		}
-		if (key.backspace || key.delete) {
-			const fieldKey = fields[activeIndex].key;
-			setValues((prev) => ({
-				...prev,
-				[fieldKey]: prev[fieldKey].slice(0, -1),
-			}));
-			return;
-		}
-		// Accept printable characters (space and above), ignore control chars
-		if (input && input.length === 1 && input.charCodeAt(0) >= 32 && !key.ctrl && !key.meta) {
-			const fieldKey = fields[activeIndex].key;
-			setValues((prev) => ({
-				...prev,
-				[fieldKey]: prev[fieldKey] + input,
-			}));
-			if (error) setError(null);
-		}
 	});
 
 	const labelWidth = Math.max(...fields.map((f) => f.label.length)) + 1;
@@ -178,12 +99,13 @@ export function AddProviderForm({
 		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
 			<Text bold color="cyan">Add Provider</Text>
 			<Newline />
-			<Text color="gray">Tab/↑↓ move · Type to edit · Cmd+V/Ctrl+V paste · Enter save · Esc cancel</Text>
+			<Text color="gray">Tab/↑↓ move · Type or paste to edit · Enter save · Esc cancel</Text>
+			<Text color="gray">←→ Home End move the cursor · Ctrl+W delete word · Ctrl+U clear · Ctrl+R reveal token</Text>
 			<Newline />
 			{fields.map((field, index) => {
-				const value = values[field.key];
 				const paddedLabel = (field.label + ':').padEnd(labelWidth, ' ');
 				const isActive = index === activeIndex;
+				const problem = submitted || values[field.key] ? problems[field.key] : undefined;
 				return (
 					<Text key={field.key}>
 						<Text color={isActive ? 'cyan' : 'white'} bold={isActive}>
@@ -194,8 +116,22 @@ export function AddProviderForm({
 							backgroundColor={isActive ? 'cyan' : undefined}
 							bold={isActive}
 						>
-							{value || (isActive ? '' : '-')}
+							<TextInput
+								value={values[field.key]}
+								onChange={(value) => {
+									setValues((prev) => ({ ...prev, [field.key]: value }));
+									if (error) setError(null);
+								}}
+								focus={isActive}
+								secret={'secret' in field}
+								placeholder="-"
+							/>
 						</Text>
+						{problem ? (
+							<Text color="red">  ✗ {problem}</Text>
+						) : warnings[field.key] ? (
+							<Text color="yellow">  ⚠ {warnings[field.key]}</Text>
+						) : null}
 					</Text>
 				);
 			})}
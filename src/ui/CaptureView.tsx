@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+import type { Profile } from '../types.js';
+import { CAPTURE_SOURCES, captureProfile, collectEnv, type CaptureSource, type CapturedProfile } from '../lib/capture.js';
+import { maskEnv } from '../lib/mask.js';
+import { getProfilePath, getTargetFileKey } from '../lib/profiles.js';
+import { TextInput } from './TextInput.js';
+
+type Step = 'source' | 'name' | 'preview' | 'done';
+
+const SOURCE_LABELS: { [source in CaptureSource]: string } = {
+	env: 'Current environment',
+	user: 'Claude user settings',
+	project: 'Claude project settings',
+};
+
+// Reads every source up front so the list can say which ones have anything to capture
+function describeSources(): { source: CaptureSource; origin: string; count: number; error?: string }[] {
+	return CAPTURE_SOURCES.map((source) => {
+		try {
+			const { env, origin } = collectEnv(source);
+			return { source, origin, count: Object.keys(env).length };
+		} catch (err) {
+			return { source, origin: '', count: 0, error: (err as Error).message };
+		}
+	});
+}
+
+export function CaptureView({
+	onSave,
+	onDone,
+}: {
+	onSave: (profile: Profile) => void;
+	onDone: () => void;
+}) {
+	const [step, setStep] = useState<Step>('source');
+	const [sources] = useState(describeSources);
+	const [sourceIndex, setSourceIndex] = useState(() => Math.max(0, sources.findIndex((s) => s.count > 0)));
+	const [captured, setCaptured] = useState<CapturedProfile | null>(null);
+	const [name, setName] = useState('');
+	const [fileKey, setFileKey] = useState('');
+	const [error, setError] = useState<string | null>(null);
+
+	const chooseSource = () => {
+		const { source, origin, count, error: sourceError } = sources[sourceIndex];
+		if (sourceError || count === 0) {
+			setError(sourceError || `No ANTHROPIC_*, CLAUDE_* or API_TIMEOUT_MS variables found in ${origin}`);
+			return;
+		}
+		const result = captureProfile('', source);
+		setCaptured(result);
+		setName(result.provider?.name || result.profile.provider);
+		setError(null);
+		setStep('name');
+	};
+
+	const submitName = () => {
+		try {
+			setFileKey(getTargetFileKey(name));
+			setError(null);
+			setStep('preview');
+		} catch (err) {
+			setError((err as Error).message);
+		}
+	};
+
+	const save = () => {
+		if (!captured) return;
+		try {
+			onSave({ ...captured.profile, name: name.trim(), fileKey });
+			setStep('done');
+		} catch (err) {
+			setError((err as Error).message);
+			setStep('name');
+		}
+	};
+
+	useInput((input, key) => {
+		const enter = key.return || input === '\r' || input === '\n';
+		if (step === 'done') {
+			onDone();
+			return;
+		}
+		if (step === 'preview') {
+			if (input.toLowerCase() === 'y') {
+				save();
+			} else if (input.toLowerCase() === 'n' || key.escape) {
+				setStep('name');
+			}
+			return;
+		}
+		if (key.escape) {
+			onDone();
+			return;
+		}
+		if (step === 'source') {
+			const total = sources.length;
+			if (input === 'j' || key.downArrow) {
+				setSourceIndex((sourceIndex + 1) % total);
+			} else if (input === 'k' || key.upArrow) {
+				setSourceIndex((sourceIndex - 1 + total) % total);
+			} else if (enter) {
+				chooseSource();
+			}
+		} else if (step === 'name' && enter) {
+			submitName();
+		}
+	});
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">Import Current Environment</Text>
+			<Newline />
+			{step === 'source' && (
+				<>
+					{sources.map(({ source, origin, count, error: sourceError }, index) => (
+						<Text
+							key={source}
+							color={index === sourceIndex ? 'black' : 'white'}
+							backgroundColor={index === sourceIndex ? 'cyan' : undefined}
+							bold={index === sourceIndex}
+						>
+							{index === sourceIndex ? '▶ ' : '  '}{SOURCE_LABELS[source]}
+							<Text color="gray"> {sourceError ? '(unreadable)' : `(${count} variable${count === 1 ? '' : 's'}${source === 'env' ? '' : ` in ${origin}`})`}</Text>
+						</Text>
+					))}
+					<Newline />
+					<Text color="gray">↑↓ j/k move · Enter choose · Esc cancel</Text>
+				</>
+			)}
+			{(step === 'name' || step === 'preview') && captured && (
+				<>
+					<Text>
+						<Text color="cyan" bold>▶ Profile name: </Text>
+						<TextInput value={name} onChange={setName} focus={step === 'name'} />
+					</Text>
+					<Text color="gray">
+						Provider: {captured.provider ? `${captured.provider.name} (${captured.provider.id})` : `${captured.profile.provider} (no known provider uses this base URL)`}
+					</Text>
+					<Newline />
+					{Object.entries(maskEnv(captured.env)).map(([key, value]) => (
+						<Text key={key}>  {key}=<Text color="gray">{value}</Text></Text>
+					))}
+					<Newline />
+					{step === 'name' ? (
+						<Text color="gray">Enter continue · Esc cancel</Text>
+					) : (
+						<Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={2}>
+							<Text bold color="yellow">Save profile?</Text>
+							<Text>Creates {getProfilePath(fileKey)}</Text>
+							<Text color="gray">Press y to confirm, n or Esc to go back</Text>
+						</Box>
+					)}
+				</>
+			)}
+			{step === 'done' && (
+				<>
+					<Text color="green">✓ Saved {name.trim()} ({fileKey})</Text>
+					<Newline />
+					<Text color="gray">Press any key to go back</Text>
+				</>
+			)}
+			{error && <Text color="red">{error}</Text>}
+		</Box>
+	);
+}
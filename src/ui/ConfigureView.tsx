@@ -1,93 +1,207 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Newline, Text, useInput } from 'ink';
 import type { Profile } from '../types.js';
-import { loadProfiles } from '../lib/profiles.js';
+import { describeConnectionResult, type ConnectionResult } from '../lib/connection.js';
+import { fuzzyFilter } from '../lib/fuzzy.js';
+import { findChildProfiles, getProfilePath, hasAuthToken, hasPersonalFile, loadProfiles } from '../lib/profiles.js';
+import { FilterLine, HighlightedText, MoreIndicator, getWindowStart, useVisibleItems } from './ListWindow.js';
+
+// Rows above the profile list
+const ACTIONS = [
+	{ label: '+ Add Provider', title: 'Add Provider', description: 'Create a new provider profile' },
+	{ label: '⇣ Import Profiles', title: 'Import Profiles', description: 'Add profiles from a bundle file' },
+	{ label: '⇣ Import Current Environment', title: 'Import Current Environment', description: 'Save the ANTHROPIC_* variables from this shell or claude\'s settings as a profile' },
+	{ label: '⇡ Export Profiles', title: 'Export Profiles', description: 'Write all profiles to a bundle file' },
+];
+
+// Keys that act on the list instead of starting a filter
+const COMMAND_KEYS = ['j', 'k', 'q', 't', 'd', 'r', 'c'];
 
 export function ConfigureView({
 	onConfigureProfile,
 	onAddProvider,
-	onRemoveProvider,
+	onImport,
+	onCapture,
+	onExport,
+	onRenameProfile,
+	onDuplicateProfile,
+	onDeleteProfile,
+	onTestProfile,
+	connection,
+	onFilteringChange,
 }: {
 	onConfigureProfile: (profile: Profile) => void;
 	onAddProvider: () => void;
-	onRemoveProvider: (providerId: string) => void;
+	onImport: () => void;
+	onCapture: () => void;
+	onExport: () => void;
+	onRenameProfile: (profile: Profile) => void;
+	onDuplicateProfile: (profile: Profile) => void;
+	onDeleteProfile: (profile: Profile) => void;
+	onTestProfile: (profile: Profile) => void;
+	// The last connection test, with a null result while it is running
+	connection?: { name: string; result: ConnectionResult | null } | null;
+	// While filtering, typed keys belong to the filter rather than the app's navigation
+	onFilteringChange?: (filtering: boolean) => void;
 }) {
-	const [selected, setSelected] = useState(0);
-	const [confirmDelete, setConfirmDelete] = useState<Profile | null>(null);
 	const profiles = loadProfiles();
-	const totalItems = profiles.length + 1;
+	// The view remounts after the unlock prompt, so land back on the profile being tested
+	const [selected, setSelected] = useState(() => {
+		const index = profiles.findIndex((p) => p.name === connection?.name);
+		return index === -1 ? 0 : ACTIONS.length + index;
+	});
+	const [filter, setFilter] = useState<string | null>(null);
+	const [confirmDelete, setConfirmDelete] = useState<Profile | null>(null);
+	// Why the last key did nothing, e.g. renaming a shared profile
+	const [notice, setNotice] = useState<string | null>(null);
+	const results = fuzzyFilter(profiles, filter || '', (p) => [p.name, p.provider, p.env['ANTHROPIC_MODEL'] || '']);
+	// The action rows are hidden while filtering
+	const actionCount = filter === null ? ACTIONS.length : 0;
+	const totalItems = results.length + actionCount;
+	const selectedProfile = selected >= actionCount ? results[selected - actionCount]?.item : undefined;
+	const visibleCount = useVisibleItems(2, 36);
+
+	// Hand the keys back to the app if the view closes mid-filter
+	useEffect(() => () => onFilteringChange?.(false), []);
+
+	const setFiltering = (value: string | null) => {
+		setFilter(value);
+		setSelected(0);
+		if ((value !== null) !== (filter !== null)) onFilteringChange?.(value !== null);
+	};
 
 	useInput((input, key) => {
 		if (confirmDelete) {
 			if (input.toLowerCase() === 'y') {
-				onRemoveProvider(confirmDelete.provider);
+				onDeleteProfile(confirmDelete);
 				setConfirmDelete(null);
-				setSelected(0);
+				setSelected(Math.min(selected, totalItems - 2));
 			} else if (input.toLowerCase() === 'n' || key.escape) {
 				setConfirmDelete(null);
 			}
 			return;
 		}
+		if (filter !== null) {
+			if (key.escape) {
+				setFiltering(null);
+			} else if (key.return || input === '\r' || input === '\n') {
+				if (selectedProfile) onConfigureProfile(selectedProfile);
+			} else if (key.downArrow) {
+				setSelected(totalItems > 0 ? (selected + 1) % totalItems : 0);
+			} else if (key.upArrow) {
+				setSelected(totalItems > 0 ? (selected - 1 + totalItems) % totalItems : 0);
+			} else if (key.backspace || key.delete) {
+				setFiltering(filter.slice(0, -1));
+			} else {
+				const printable = input.replace(/[\x00-\x1f\x7f]/g, '');
+				if (printable && !key.ctrl && !key.meta) setFiltering(filter + printable);
+			}
+			return;
+		}
+		setNotice(null);
 		if (input === 'j' || key.downArrow) {
 			setSelected((selected + 1) % totalItems);
 		} else if (input === 'k' || key.upArrow) {
 			setSelected((selected - 1 + totalItems) % totalItems);
 		} else if (key.return || input === '\r' || input === '\n') {
-			if (selected === 0) {
-				onAddProvider();
+			if (selectedProfile) {
+				onConfigureProfile(selectedProfile);
+			} else {
+				[onAddProvider, onImport, onCapture, onExport][selected]();
+			}
+		} else if (input === 't' && selectedProfile) {
+			onTestProfile(selectedProfile);
+		} else if (input === 'd' && selectedProfile) {
+			if (selectedProfile.sharedSource && !hasPersonalFile(selectedProfile)) {
+				setNotice(`${selectedProfile.name} comes from ${selectedProfile.sharedSource}, which is read-only`);
 			} else {
-				onConfigureProfile(profiles[selected - 1]);
+				setConfirmDelete(selectedProfile);
 			}
-		} else if (input === 'd') {
-			if (selected > 0) {
-				const profile = profiles[selected - 1];
-				if (profile.provider !== 'anthropic') {
-					setConfirmDelete(profile);
-				}
+		} else if (input === 'r' && selectedProfile) {
+			if (selectedProfile.sharedSource) {
+				setNotice(`${selectedProfile.name} comes from ${selectedProfile.sharedSource}, which is read-only. Duplicate it with c instead.`);
+			} else {
+				onRenameProfile(selectedProfile);
 			}
+		} else if (input === 'c' && selectedProfile) {
+			onDuplicateProfile(selectedProfile);
+		} else if (input === '/') {
+			setFiltering('');
+		} else if (/^[\w.-]$/.test(input) && !COMMAND_KEYS.includes(input) && !key.ctrl && !key.meta) {
+			setFiltering(input);
 		}
 	});
 
-	const profile = profiles[Math.max(0, selected - 1)];
+	const profile = selectedProfile;
+	const action = filter === null ? ACTIONS[selected] : undefined;
+	const start = getWindowStart(Math.max(0, selected - actionCount), results.length, visibleCount);
+	const visible = results.slice(start, start + visibleCount);
+	// Deleting a shared profile only drops the overrides, so nothing breaks
+	const brokenChildren = confirmDelete && !confirmDelete.sharedSource ? findChildProfiles(profiles, confirmDelete.fileKey || '') : [];
 
 	return (
 		<>
 			<Box paddingLeft={2} paddingRight={2} flexDirection="column">
 				<Text bold inverse> Configure </Text>
 				<Newline />
-				<Box marginBottom={1}>
-					<Text color={selected === 0 ? 'black' : 'white'} backgroundColor={selected === 0 ? 'cyan' : undefined} bold={selected === 0}>
-						{selected === 0 ? '▶ ' : '  '}+ Add Provider
-					</Text>
-				</Box>
-				{profiles.map((p, index) => {
-					const hasToken = !!p.env['ANTHROPIC_AUTH_TOKEN'];
-					const rowIndex = index + 1;
+				<FilterLine filter={filter || ''} active={filter !== null} />
+				{filter !== null && results.length === 0 && <Text color="yellow">No profile matches "{filter}"</Text>}
+				{ACTIONS.slice(0, actionCount).map((item, index) => (
+					<Box key={item.label} marginBottom={index === ACTIONS.length - 1 ? 1 : 0}>
+						<Text color={selected === index ? 'black' : 'white'} backgroundColor={selected === index ? 'cyan' : undefined} bold={selected === index}>
+							{selected === index ? '▶ ' : '  '}{item.label}
+						</Text>
+					</Box>
+				))}
+				<MoreIndicator count={start} direction="above" />
+				{visible.map(({ item: p, positions }, offset) => {
+					const hasToken = hasAuthToken(p) || !!p.chain;
+					const rowIndex = start + offset + actionCount;
 					return (
 						<Box key={p.fileKey || p.name} marginBottom={1}>
 							<Text color={rowIndex === selected ? 'black' : 'white'} backgroundColor={rowIndex === selected ? 'cyan' : undefined} bold={rowIndex === selected}>
-								{rowIndex === selected ? '▶ ' : '  '}{hasToken ? '✓' : '○'} {p.name} <Text color="gray">({p.provider})</Text>
+								{rowIndex === selected ? '▶ ' : '  '}{hasToken ? '✓' : '○'} <HighlightedText text={p.name} positions={positions[0]} />
+								{' '}
+								<Text color="gray">
+									(<HighlightedText text={p.provider} positions={positions[1]} />)
+									{positions[2].length > 0 && <> · <HighlightedText text={p.env['ANTHROPIC_MODEL'] || ''} positions={positions[2]} /></>}
+									{p.sharedSource ? ` · ${p.sharedSource}` : ''}
+								</Text>
 							</Text>
 						</Box>
 					);
 				})}
+				<MoreIndicator count={results.length - start - visible.length} direction="below" />
 				<Newline />
-				{selected === 0 ? (
+				{action ? (
 					<>
-						<Text bold color="cyan">Add Provider</Text>
-						<Text color="gray">Create a new provider profile</Text>
+						<Text bold color="cyan">{action.title}</Text>
+						<Text color="gray">{action.description}</Text>
 					</>
 				) : (
 					<>
 						<Text bold color="cyan">{profile?.name || '-'}</Text>
 						<Text color="gray">Provider: {profile?.provider || '-'}</Text>
+						{profile?.sharedSource && (
+							<Text color="gray">
+								Source: {profile.sharedSource} (shared, read-only){hasPersonalFile(profile) ? ' · with your overrides' : ''}
+							</Text>
+						)}
 						<Text>API URL: {profile?.env['ANTHROPIC_BASE_URL'] || '-'}</Text>
 						<Text>Model: {profile?.env['ANTHROPIC_MODEL'] || '-'}</Text>
+						{notice && <Text color="yellow">{notice}</Text>}
+						{connection && connection.name === profile?.name && (
+							<Text color={!connection.result ? 'gray' : connection.result.status === 'ok' ? 'green' : 'red'}>
+								{connection.result ? describeConnectionResult(connection.result) : 'Testing connection…'}
+							</Text>
+						)}
 					</>
 				)}
 				<Newline />
-				<Text color="gray">Press ↵ to add or update a profile for the selected provider</Text>
-				<Text color="gray">Press d to remove a provider (except Anthropic)</Text>
+				<Text color="gray">Press ↵ to add or update a profile, or to import/export profiles</Text>
+				<Text color="gray">Press t to test the selected profile's connection</Text>
+				<Text color="gray">Press r to rename, c to duplicate or d to delete the selected profile</Text>
+				<Text color="gray">Type or press / to filter profiles ({COMMAND_KEYS.join(', ')} need / first)</Text>
 			</Box>
 			{confirmDelete && (
 				<Box
@@ -100,8 +214,22 @@ export function ConfigureView({
 					borderColor="yellow"
 					flexDirection="column"
 				>
-					<Text bold color="yellow">Delete provider?</Text>
-					<Text>Remove all profiles for <Text bold>{confirmDelete.name}</Text>?</Text>
+					{confirmDelete.sharedSource ? (
+						<>
+							<Text bold color="yellow">Delete your overrides?</Text>
+							<Text>Removes {getProfilePath(confirmDelete.fileKey || '')}; the profile from {confirmDelete.sharedSource} stays</Text>
+						</>
+					) : (
+						<>
+							<Text bold color="yellow">Delete profile?</Text>
+							<Text>Removes {getProfilePath(confirmDelete.fileKey || '')}</Text>
+						</>
+					)}
+					{brokenChildren.length > 0 && (
+						<Text color="yellow">
+							{brokenChildren.map((child) => child.name).join(', ')} extend{brokenChildren.length === 1 ? 's' : ''} this profile and will stop working
+						</Text>
+					)}
 					<Text color="gray">Press y to confirm, n or Esc to cancel</Text>
 				</Box>
 			)}
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { KNOWN_CLAUDE_ENV } from '../lib/claude-env.js';
+import { isSecretKey } from '../lib/mask.js';
+import { isValidEnvKey } from '../lib/shell.js';
+import { TextInput } from './TextInput.js';
+
+export interface EnvEntry {
+	key: string;
+	value: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export function EnvVarEditor({
+	entries: initialEntries,
+	reservedKeys,
+	onDone,
+	onCancel,
+}: {
+	entries: EnvEntry[];
+	// Keys the surrounding form already manages
+	reservedKeys: string[];
+	onDone: (entries: EnvEntry[]) => void;
+	onCancel: () => void;
+}) {
+	const [entries, setEntries] = useState(initialEntries);
+	const [selected, setSelected] = useState(initialEntries.length);
+	// Key being typed on the "add" row, or the new name while renaming
+	const [keyDraft, setKeyDraft] = useState('');
+	const [renaming, setRenaming] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const onAddRow = selected === entries.length;
+	const editingKey = onAddRow || renaming;
+	const usedKeys = new Set([...reservedKeys, ...entries.map((e) => e.key)]);
+	const suggestions = onAddRow
+		? KNOWN_CLAUDE_ENV.filter((k) => !usedKeys.has(k.key) && k.key.startsWith(keyDraft)).slice(0, MAX_SUGGESTIONS)
+		: [];
+
+	const validateKey = (newKey: string, ignoreIndex: number): string | null => {
+		if (!isValidEnvKey(newKey)) return `"${newKey}" is not a valid variable name`;
+		if (reservedKeys.includes(newKey)) return `${newKey} is managed by the form above`;
+		if (entries.some((e, i) => i !== ignoreIndex && e.key === newKey)) return `${newKey} is already set`;
+		return null;
+	};
+
+	const changeKeyDraft = (value: string) => {
+		setError(null);
+		setKeyDraft(value.toUpperCase());
+	};
+
+	const changeValue = (value: string) => {
+		setError(null);
+		setEntries((prev) => prev.map((e, i) => (i === selected ? { ...e, value } : e)));
+	};
+
+	useInput((input, key) => {
+		if (key.escape) {
+			if (renaming) {
+				setRenaming(false);
+				setKeyDraft('');
+			} else {
+				onCancel();
+			}
+			return;
+		}
+		if (key.return) {
+			if (onAddRow && keyDraft) {
+				const problem = validateKey(keyDraft, -1);
+				if (problem) {
+					setError(problem);
+					return;
+				}
+				setEntries((prev) => [...prev, { key: keyDraft, value: '' }]);
+				setKeyDraft('');
+			} else if (renaming) {
+				const problem = validateKey(keyDraft, selected);
+				if (problem) {
+					setError(problem);
+					return;
+				}
+				setEntries((prev) => prev.map((e, i) => (i === selected ? { ...e, key: keyDraft } : e)));
+				setRenaming(false);
+				setKeyDraft('');
+			} else {
+				onDone(entries);
+			}
+			return;
+		}
+		if (key.tab && onAddRow && suggestions.length > 0) {
+			setKeyDraft(suggestions[0].key);
+			return;
+		}
+		if (!renaming && (key.downArrow || key.tab)) {
+			setSelected((selected + 1) % (entries.length + 1));
+			setKeyDraft('');
+			return;
+		}
+		if (!renaming && key.upArrow) {
+			setSelected((selected - 1 + entries.length + 1) % (entries.length + 1));
+			setKeyDraft('');
+			return;
+		}
+		// Ctrl+R belongs to the value field, where it reveals secrets
+		if (key.ctrl && input === 'n' && !onAddRow) {
+			setRenaming(true);
+			setKeyDraft(entries[selected].key);
+			return;
+		}
+		if (key.ctrl && input === 'd' && !onAddRow) {
+			setEntries((prev) => prev.filter((_, i) => i !== selected));
+			setRenaming(false);
+			return;
+		}
+	});
+
+	const keyWidth = Math.max(12, ...entries.map((e) => e.key.length)) + 1;
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1} marginTop={1}>
+			<Text bold color="cyan">Environment variables</Text>
+			{entries.map((entry, index) => {
+				const isActive = index === selected;
+				return (
+					<Text key={index}>
+						<Text color={isActive ? 'cyan' : 'white'} bold={isActive}>
+							{isActive ? '▶ ' : '  '}
+							{isActive && renaming
+								? <TextInput value={keyDraft} onChange={changeKeyDraft} focus />
+								: entry.key}
+							{' '.repeat(Math.max(1, keyWidth - (isActive && renaming ? keyDraft.length + 1 : entry.key.length)))}
+						</Text>
+						<Text
+							color={isActive && !renaming ? 'black' : 'white'}
+							backgroundColor={isActive && !renaming ? 'cyan' : undefined}
+						>
+							<TextInput
+								value={entry.value}
+								onChange={changeValue}
+								focus={isActive && !renaming}
+								secret={isSecretKey(entry.key)}
+								placeholder="-"
+							/>
+						</Text>
+					</Text>
+				);
+			})}
+			<Text color={onAddRow ? 'cyan' : 'gray'} bold={onAddRow}>
+				{onAddRow ? '▶ ' : '  '}+ Add variable
+				{onAddRow && <>: <TextInput value={keyDraft} onChange={changeKeyDraft} focus /></>}
+			</Text>
+			{suggestions.map((s) => (
+				<Text key={s.key} color="gray">    {s.key} <Text dimColor>{s.description}</Text></Text>
+			))}
+			{error && <Text color="yellow">{error}</Text>}
+			<Text color="gray">
+				{onAddRow
+					? 'Type a name · Tab complete · Enter add · Esc discard'
+					: renaming
+						? 'Type the new name · Enter rename · Esc cancel'
+						: `Type to edit value${isSecretKey(entries[selected].key) ? ' · Ctrl+R reveal' : ''} · Ctrl+N rename · Ctrl+D delete · Enter done · Esc discard`}
+			</Text>
+		</Box>
+	);
+}
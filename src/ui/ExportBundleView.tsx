@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import path from 'path';
+import { Box, Newline, Text, useInput } from 'ink';
+import { createBundle, writeBundle } from '../lib/bundle.js';
+import { loadProfiles } from '../lib/profiles.js';
+import { TextInput } from './TextInput.js';
+
+const DEFAULT_BUNDLE_FILE = 'claude-profiles.bundle.json';
+
+export function ExportBundleView({ onDone }: { onDone: () => void }) {
+	const [filename, setFilename] = useState(DEFAULT_BUNDLE_FILE);
+	const [withSecrets, setWithSecrets] = useState(false);
+	const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+	useInput((input, key) => {
+		if (key.escape || (message && !message.error)) {
+			onDone();
+			return;
+		}
+		if (key.tab) {
+			setWithSecrets((prev) => !prev);
+			return;
+		}
+		if (key.return || input === '\r' || input === '\n') {
+			if (!filename) return;
+			const target = path.resolve(filename);
+			try {
+				const bundle = createBundle(loadProfiles(), withSecrets);
+				writeBundle(target, bundle, withSecrets);
+				setMessage({ text: `Exported ${bundle.profiles.length} profile(s) to ${target}`, error: false });
+			} catch (err) {
+				setMessage({ text: (err as Error).message, error: true });
+			}
+			return;
+		}
+	});
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">Export Profiles</Text>
+			<Newline />
+			<Text color="gray">Writes every profile to one file a teammate can import.</Text>
+			<Newline />
+			<Text>
+				<Text color="cyan" bold>▶ File: </Text>
+				<TextInput value={filename} onChange={setFilename} focus={!message || message.error} />
+			</Text>
+			<Text>
+				<Text color="cyan" bold>  Tokens: </Text>
+				<Text color={withSecrets ? 'yellow' : undefined}>{withSecrets ? 'included (plaintext)' : 'redacted'}</Text>
+			</Text>
+			<Newline />
+			{message ? (
+				<>
+					<Text color={message.error ? 'red' : 'green'}>{message.text}</Text>
+					{!message.error && <Text color="gray">Press any key to go back</Text>}
+				</>
+			) : (
+				<Text color="gray">Enter export · Tab include/redact tokens · Esc cancel</Text>
+			)}
+		</Box>
+	);
+}
@@ -12,7 +12,7 @@ const HEADER_LINES = [
 
 const NAV_DIVIDER = '────────────────────────────────────────────────────────';
 
-export function Header({ title }: { title: string }) {
+export function Header({ title, note }: { title: string; note?: string }) {
 	return (
 		<Box paddingLeft={2} paddingTop={1} flexDirection="column">
 			{HEADER_LINES.map((line) => (
@@ -20,6 +20,7 @@ export function Header({ title }: { title: string }) {
 			))}
 			<Newline />
 			<Text bold>{`    ${title}`}</Text>
+			{note && <Text color="gray">{`    ${note}`}</Text>}
 			<Newline />
 		</Box>
 	);
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Box, Newline, Text } from 'ink';
+import { formatRelativeTime, getLaunchStats, loadHistory } from '../lib/history.js';
+
+const RECENT_LAUNCHES = 8;
+
+export function HistoryView() {
+	const entries = loadHistory();
+	const stats = getLaunchStats(entries);
+	const nameWidth = Math.max(0, ...stats.map((s) => s.name.length));
+
+	return (
+		<Box paddingLeft={2} paddingRight={2} flexDirection="column">
+			<Text bold inverse> Launch History </Text>
+			<Newline />
+			{entries.length === 0 ? (
+				<Text color="yellow">No launches recorded yet.</Text>
+			) : (
+				<>
+					{stats.map((s) => (
+						<Text key={s.profile}>
+							{s.name.padEnd(nameWidth)}  <Text color="cyan">{String(s.launches).padStart(4)}</Text>
+							<Text color="gray"> {s.launches === 1 ? 'launch' : 'launches'} · last {formatRelativeTime(s.lastUsed)}</Text>
+						</Text>
+					))}
+					<Newline />
+					<Text bold>Recent launches</Text>
+					{entries.slice(-RECENT_LAUNCHES).reverse().map((entry) => (
+						<Text key={`${entry.startedAt}-${entry.profile}`} color="gray">
+							<Text color={entry.exitCode === 0 ? 'green' : 'red'}>{entry.exitCode === 0 ? '✓' : '✗'}</Text>
+							{' '}{formatRelativeTime(entry.startedAt).padEnd(9)} {entry.name} · {entry.cwd}
+							{entry.exitCode !== 0 ? ` (exit ${entry.exitCode ?? 'signal'})` : ''}
+						</Text>
+					))}
+				</>
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import path from 'path';
+import { Box, Newline, Text, useInput } from 'ink';
+import type { Profile } from '../types.js';
+import {
+	CONFLICT_STRATEGIES,
+	findBundleConflicts,
+	importBundle,
+	readBundle,
+	type ConflictStrategy,
+	type ImportResult,
+	type ProfileBundle,
+} from '../lib/bundle.js';
+import { findProfile, loadProfiles } from '../lib/profiles.js';
+import { TextInput } from './TextInput.js';
+
+type Step = 'file' | 'conflict' | 'importing' | 'secrets' | 'done';
+
+const STRATEGY_LABELS: { [strategy in ConflictStrategy]: string } = {
+	skip: 'Skip existing profiles',
+	overwrite: 'Overwrite existing profiles',
+	rename: 'Import under a new name',
+};
+
+export function ImportBundleView({
+	onSave,
+	onDone,
+}: {
+	onSave: (profile: Profile) => void;
+	onDone: () => void;
+}) {
+	const [step, setStep] = useState<Step>('file');
+	const [filename, setFilename] = useState('');
+	const [error, setError] = useState<string | null>(null);
+	const [bundle, setBundle] = useState<ProfileBundle | null>(null);
+	const [conflicts, setConflicts] = useState<string[]>([]);
+	const [strategyIndex, setStrategyIndex] = useState(0);
+	const [result, setResult] = useState<ImportResult | null>(null);
+	// Redacted tokens still to ask for, and the ones left empty
+	const [pending, setPending] = useState<{ fileKey: string; name: string; key: string }[]>([]);
+	const [missing, setMissing] = useState<string[]>([]);
+	const [secret, setSecret] = useState('');
+
+	const runImport = (loaded: ProfileBundle, strategy: ConflictStrategy) => {
+		setStep('importing');
+		importBundle(loaded, () => strategy, onSave).then((imported) => {
+			const redacted = imported.imported.flatMap((entry) =>
+				entry.redacted.map((key) => ({ fileKey: entry.fileKey, name: entry.name, key })));
+			setResult(imported);
+			setPending(redacted);
+			setStep(redacted.length > 0 ? 'secrets' : 'done');
+		}).catch((err) => {
+			setError((err as Error).message);
+			setStep('file');
+		});
+	};
+
+	const submitFile = () => {
+		try {
+			const loaded = readBundle(path.resolve(filename));
+			const existing = findBundleConflicts(loaded);
+			setBundle(loaded);
+			setError(null);
+			if (existing.length > 0) {
+				setConflicts(existing);
+				setStep('conflict');
+			} else {
+				runImport(loaded, 'skip');
+			}
+		} catch (err) {
+			setError((err as Error).message);
+		}
+	};
+
+	const submitSecret = () => {
+		const [current, ...rest] = pending;
+		const profile = secret ? findProfile(loadProfiles(), current.fileKey) : undefined;
+		if (profile) {
+			onSave({ ...profile, env: { ...profile.env, [current.key]: secret } });
+		} else {
+			setMissing((prev) => [...prev, `${current.fileKey}/${current.key}`]);
+		}
+		setSecret('');
+		setPending(rest);
+		if (rest.length === 0) setStep('done');
+	};
+
+	useInput((input, key) => {
+		const enter = key.return || input === '\r' || input === '\n';
+		if (step === 'done') {
+			onDone();
+			return;
+		}
+		if (step === 'importing') return;
+		if (key.escape) {
+			// Tokens can still be added later from Configure
+			if (step === 'secrets') setStep('done');
+			else onDone();
+			return;
+		}
+		if (step === 'file') {
+			if (enter && filename) submitFile();
+		} else if (step === 'conflict') {
+			const total = CONFLICT_STRATEGIES.length;
+			if (input === 'j' || key.downArrow) {
+				setStrategyIndex((strategyIndex + 1) % total);
+			} else if (input === 'k' || key.upArrow) {
+				setStrategyIndex((strategyIndex - 1 + total) % total);
+			} else if (enter && bundle) {
+				runImport(bundle, CONFLICT_STRATEGIES[strategyIndex]);
+			}
+		} else if (step === 'secrets' && enter) {
+			submitSecret();
+		}
+	});
+
+	const current = pending[0];
+	const stillMissing = [...missing, ...pending.map((p) => `${p.fileKey}/${p.key}`)];
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">Import Profiles</Text>
+			<Newline />
+			{step === 'file' && (
+				<>
+					<Text>
+						<Text color="cyan" bold>▶ Bundle file: </Text>
+						<TextInput value={filename} onChange={setFilename} focus />
+					</Text>
+					<Newline />
+					<Text color="gray">Enter import · Esc cancel</Text>
+				</>
+			)}
+			{step === 'conflict' && (
+				<>
+					<Text color="yellow">Already configured: {conflicts.join(', ')}</Text>
+					<Newline />
+					{CONFLICT_STRATEGIES.map((strategy, index) => (
+						<Text
+							key={strategy}
+							color={index === strategyIndex ? 'black' : 'white'}
+							backgroundColor={index === strategyIndex ? 'cyan' : undefined}
+							bold={index === strategyIndex}
+						>
+							{index === strategyIndex ? '▶ ' : '  '}{STRATEGY_LABELS[strategy]}
+						</Text>
+					))}
+					<Newline />
+					<Text color="gray">↑↓ j/k move · Enter choose · Esc cancel</Text>
+				</>
+			)}
+			{step === 'importing' && <Text color="gray">Importing…</Text>}
+			{step === 'secrets' && current && (
+				<>
+					<Text color="gray">The bundle left this token out. Leave it empty to set it later.</Text>
+					<Newline />
+					<Text>
+						<Text color="cyan" bold>▶ {current.key} for {current.name}: </Text>
+						<TextInput value={secret} onChange={setSecret} focus secret />
+					</Text>
+					<Newline />
+					<Text color="gray">Enter save · Ctrl+R reveal · Esc skip remaining</Text>
+				</>
+			)}
+			{step === 'done' && result && (
+				<>
+					{result.imported.map((entry) => (
+						<Text key={entry.fileKey} color="green">
+							✓ {entry.name}{entry.renamedFrom ? <Text color="gray"> (renamed from {entry.renamedFrom})</Text> : null}
+						</Text>
+					))}
+					{result.skipped.map((fileKey) => (
+						<Text key={fileKey} color="gray">- {fileKey}: skipped, already exists</Text>
+					))}
+					{stillMissing.length > 0 && (
+						<Text color="yellow">Still missing: {stillMissing.join(', ')} (set them from Configure)</Text>
+					)}
+					<Newline />
+					<Text color="gray">Press any key to go back</Text>
+				</>
+			)}
+			{error && <Text color="red">{error}</Text>}
+		</Box>
+	);
+}
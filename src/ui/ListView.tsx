@@ -1,9 +1,35 @@
-import React from 'react';
-import { Box, Newline, Text } from 'ink';
-import { loadProfiles } from '../lib/profiles.js';
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+import { PERSONAL_SOURCE, getEnvOrigin, hasAuthToken, loadProfilesWithProblems } from '../lib/profiles.js';
+import { getModelMapping } from '../lib/providers.js';
+import { isReference } from '../lib/references.js';
+import type { Profile } from '../types.js';
+import { MoreIndicator, useVisibleItems } from './ListWindow.js';
+import { ProblemsSection } from './ProblemsSection.js';
+
+// Marks values that come from the parent profile, or for a shared profile the source that set them
+function originTag(profile: Profile, key: string): string {
+	const origin = getEnvOrigin(profile, key);
+	if (origin !== 'own') return ` (${origin})`;
+	const source = profile.sharedSource ? profile.envSources?.[key] : undefined;
+	if (!source) return '';
+	return source === PERSONAL_SOURCE ? ' (your override)' : ` (from ${source})`;
+}
 
 export function ListView() {
-	const profiles = loadProfiles();
+	const { profiles, problems } = loadProfilesWithProblems();
+	const [offset, setOffset] = useState(0);
+	const visibleCount = useVisibleItems(8, 24);
+	const maxOffset = Math.max(0, profiles.length - visibleCount);
+	const start = Math.min(offset, maxOffset);
+
+	useInput((input, key) => {
+		if (input === 'j' || key.downArrow) {
+			setOffset(Math.min(start + 1, maxOffset));
+		} else if (input === 'k' || key.upArrow) {
+			setOffset(Math.max(start - 1, 0));
+		}
+	});
 
 	return (
 		<Box paddingLeft={2} paddingRight={2} flexDirection="column">
@@ -13,21 +39,37 @@ export function ListView() {
 				<Text color="yellow">No profiles configured.</Text>
 			) : (
 				<Box flexDirection="column">
-					{profiles.map((profile) => {
-						const hasToken = !!profile.env['ANTHROPIC_AUTH_TOKEN'];
+					<MoreIndicator count={start} direction="above" />
+					{profiles.slice(start, start + visibleCount).map((profile) => {
+						const ok = (hasAuthToken(profile) || !!profile.chain) && !profile.extendsError;
+						const token = profile.env['ANTHROPIC_AUTH_TOKEN'];
+						const status = profile.extendsError
+							? profile.extendsError
+							: profile.chain ? `Fails over ${profile.chain.join(' → ')}`
+							: !hasAuthToken(profile) ? 'Needs token' : isReference(token) ? `Configured (token from ${token})` : 'Configured';
+						const inherited = Object.keys(profile.env).filter((key) => getEnvOrigin(profile, key) === 'inherited');
+						const mapping = getModelMapping(profile)
+							.map(({ label, key, model }) => `${label} ${model ? model + originTag(profile, key) : 'default'}`)
+							.join(' · ');
 						return (
 							<Box key={profile.name} marginBottom={1} flexDirection="column">
-								<Text bold color={hasToken ? 'green' : 'red'}>
-									{hasToken ? '✓' : '✗'} {profile.name} <Text color="gray">({profile.provider})</Text>
+								<Text bold color={ok ? 'green' : 'red'}>
+									{ok ? '✓' : '✗'} {profile.name} <Text color="gray">({profile.provider})</Text>
 								</Text>
-								<Text color="gray">  Model: {profile.env['ANTHROPIC_MODEL'] || '-'}</Text>
-								<Text color="gray">  URL: {profile.env['ANTHROPIC_BASE_URL'] || '-'}</Text>
-								<Text color="gray">  Status: {hasToken ? 'Configured' : 'Needs token'}</Text>
+								{profile.sharedSource && <Text color="gray">  Source: {profile.sharedSource} (shared, read-only)</Text>}
+								{profile.extends && <Text color="gray">  Extends: {profile.extends}</Text>}
+								<Text color="gray">  Model: {profile.env['ANTHROPIC_MODEL'] || '-'}{originTag(profile, 'ANTHROPIC_MODEL')}</Text>
+								<Text color="gray">  Tiers: {mapping}</Text>
+								<Text color="gray">  URL: {profile.env['ANTHROPIC_BASE_URL'] || '-'}{originTag(profile, 'ANTHROPIC_BASE_URL')}</Text>
+								<Text color="gray">  Status: {status}{hasAuthToken(profile) ? originTag(profile, 'ANTHROPIC_AUTH_TOKEN') : ''}</Text>
+								{inherited.length > 0 && <Text color="gray">  Inherited: {inherited.join(', ')}</Text>}
 							</Box>
 						);
 					})}
+					<MoreIndicator count={profiles.length - start - visibleCount} direction="below" />
 				</Box>
 			)}
+			<ProblemsSection problems={problems} />
 		</Box>
 	);
 }
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Text, useStdout } from 'ink';
+
+const MIN_VISIBLE_ITEMS = 3;
+
+// How many list items fit in the terminal, given the lines each item takes
+// and the lines the rest of the screen (header, help text) needs.
+export function useVisibleItems(linesPerItem: number, reservedLines: number): number {
+	const { stdout } = useStdout();
+	const rows = stdout?.rows || 24;
+	return Math.max(MIN_VISIBLE_ITEMS, Math.floor((rows - reservedLines) / linesPerItem));
+}
+
+// First index of a window of `size` items that keeps `selected` visible.
+export function getWindowStart(selected: number, total: number, size: number): number {
+	return Math.max(0, Math.min(selected - Math.floor(size / 2), total - size));
+}
+
+export function MoreIndicator({ count, direction }: { count: number; direction: 'above' | 'below' }) {
+	if (count <= 0) return null;
+	return <Text color="gray">  {direction === 'above' ? '↑' : '↓'} {count} more</Text>;
+}
+
+// Text with the characters at `positions` highlighted (fuzzy-filter matches).
+export function HighlightedText({ text, positions, color }: { text: string; positions: number[]; color?: string }) {
+	if (positions.length === 0) return <Text color={color}>{text}</Text>;
+	const matched = new Set(positions);
+	return (
+		<Text color={color}>
+			{[...text].map((char, index) => (
+				matched.has(index)
+					? <Text key={index} color="yellow" bold underline>{char}</Text>
+					: char
+			))}
+		</Text>
+	);
+}
+
+export function FilterLine({ filter, active }: { filter: string; active: boolean }) {
+	if (!active) return null;
+	return (
+		<Text>
+			<Text color="cyan">/</Text>
+			<Text>{filter}</Text>
+			<Text color="cyan">▏</Text>
+			<Text color="gray">  Enter picks the top match · Esc clears</Text>
+		</Text>
+	);
+}
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { discoverModels, type ModelDiscovery } from '../lib/models.js';
+
+const VISIBLE_MODELS = 8;
+
+const SOURCE_LABELS: { [source in ModelDiscovery['source']]: string } = {
+	live: 'from provider',
+	cache: 'cached list',
+	default: 'catalog default',
+};
+
+export function ModelPicker({
+	providerId,
+	env,
+	current,
+	onSelect,
+	onCancel,
+}: {
+	providerId: string;
+	env: { [key: string]: string };
+	current: string;
+	onSelect: (model: string) => void;
+	onCancel: () => void;
+}) {
+	const [discovery, setDiscovery] = useState<ModelDiscovery | null>(null);
+	const [filter, setFilter] = useState('');
+	const [selected, setSelected] = useState(0);
+
+	useEffect(() => {
+		let cancelled = false;
+		discoverModels(providerId, env).then((result) => {
+			if (!cancelled) setDiscovery(result);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [providerId]);
+
+	const needle = filter.toLowerCase();
+	const matches = (discovery?.models || []).filter((m) => m.toLowerCase().includes(needle));
+	const start = Math.max(0, Math.min(selected - VISIBLE_MODELS + 1, matches.length - VISIBLE_MODELS));
+	const visible = matches.slice(start, start + VISIBLE_MODELS);
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+		if (key.return) {
+			// Typing a name that is not listed still lets it be used
+			onSelect(matches[selected] || filter.trim() || current);
+			return;
+		}
+		if (key.downArrow || key.tab) {
+			setSelected((prev) => Math.min(prev + 1, Math.max(0, matches.length - 1)));
+			return;
+		}
+		if (key.upArrow) {
+			setSelected((prev) => Math.max(prev - 1, 0));
+			return;
+		}
+		if (key.backspace || key.delete) {
+			setFilter((prev) => prev.slice(0, -1));
+			setSelected(0);
+			return;
+		}
+		const printable = input.replace(/[\x00-\x1f\x7f]/g, '');
+		if (printable && !key.ctrl && !key.meta) {
+			setFilter((prev) => prev + printable);
+			setSelected(0);
+		}
+	});
+
+	return (
+		<Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={1} marginTop={1}>
+			<Text bold color="cyan">Pick a model</Text>
+			<Text>
+				<Text color="gray">Filter: </Text>
+				<Text>{filter}</Text>
+				<Text color="cyan">▏</Text>
+			</Text>
+			{!discovery ? (
+				<Text color="gray">Loading models…</Text>
+			) : (
+				<>
+					{visible.length === 0 && <Text color="yellow">No matching models (Enter uses the filter text)</Text>}
+					{visible.map((model, index) => {
+						const isActive = start + index === selected;
+						return (
+							<Text key={model} color={isActive ? 'black' : 'white'} backgroundColor={isActive ? 'cyan' : undefined}>
+								{isActive ? '▶ ' : '  '}{model}{model === current ? ' (current)' : ''}
+							</Text>
+						);
+					})}
+					<Text color="gray">
+						{matches.length} model(s), {SOURCE_LABELS[discovery.source]}
+						{discovery.error ? ` · listing failed: ${discovery.error}` : ''}
+					</Text>
+				</>
+			)}
+			<Text color="gray">Type to filter · ↑↓ move · Enter choose · Esc close</Text>
+		</Box>
+	);
+}
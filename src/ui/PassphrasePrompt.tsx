@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+
+export function PassphrasePrompt({
+	reason,
+	error,
+	onSubmit,
+	onCancel,
+}: {
+	reason: string;
+	error?: string | null;
+	onSubmit: (passphrase: string) => void;
+	onCancel: () => void;
+}) {
+	const [passphrase, setPassphrase] = useState('');
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+		if (key.return || input === '\r' || input === '\n') {
+			if (passphrase) onSubmit(passphrase);
+			setPassphrase('');
+			return;
+		}
+		if (key.backspace || key.delete) {
+			setPassphrase((prev) => prev.slice(0, -1));
+			return;
+		}
+		if (input && !key.ctrl && !key.meta) {
+			setPassphrase((prev) => prev + input.replace(/[\x00-\x1f]/g, ''));
+		}
+	});
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">Unlock Vault</Text>
+			<Newline />
+			<Text color="gray">{reason}</Text>
+			<Newline />
+			<Text>
+				<Text color="cyan" bold>▶ Passphrase: </Text>
+				<Text>{'•'.repeat(passphrase.length)}</Text>
+			</Text>
+			<Newline />
+			<Text color="gray">Enter unlock · Esc cancel</Text>
+			{error && <Text color="yellow">{error}</Text>}
+		</Box>
+	);
+}
@@ -0,0 +1,22 @@
+import React from 'react';
+import path from 'path';
+import { Box, Text } from 'ink';
+import type { ProfileProblem } from '../types.js';
+
+// Profile files that failed to parse or validate, one block per file
+export function ProblemsSection({ problems }: { problems: ProfileProblem[] }) {
+	if (problems.length === 0) return null;
+	return (
+		<Box flexDirection="column" marginTop={1}>
+			<Text bold color="yellow">⚠ Problems ({problems.length})</Text>
+			{problems.map((problem) => (
+				<Box key={problem.file} flexDirection="column">
+					<Text color="yellow">  {path.basename(problem.file)}</Text>
+					{problem.errors.map((error) => (
+						<Text key={error} color="gray">    {error}</Text>
+					))}
+				</Box>
+			))}
+		</Box>
+	);
+}
@@ -1,6 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Box, Newline, Text, useInput, useStdin } from 'ink';
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
 import type { OnboardingData, Profile } from '../types.js';
+import { describeConnectionResult, testProfileConnection, type ConnectionResult } from '../lib/connection.js';
+import { isSecretKey, maskSecret } from '../lib/mask.js';
+import { assertUniqueName, findProfile, getProfilePath, getTargetFileKey, loadProfiles } from '../lib/profiles.js';
+import { findProvider, getBaseUrlWarning, getFieldProblems, getModelMappingFields, getProviderFields } from '../lib/providers.js';
+import { formatShellArgs, splitShellArgs } from '../lib/shell.js';
+import { EnvVarEditor, type EnvEntry } from './EnvVarEditor.js';
+import { ModelPicker } from './ModelPicker.js';
+import { TextInput } from './TextInput.js';
 
 export function ProfileEditorView({
 	profile,
@@ -11,136 +19,133 @@ export function ProfileEditorView({
 	onComplete: (data: OnboardingData | null) => void;
 	onCancel: () => void;
 }) {
-	const providerName = profile.env['PROVIDER_NAME'] || profile.provider;
+	const catalogEntry = findProvider(profile.provider);
+	const providerName = profile.env['PROVIDER_NAME'] || catalogEntry?.name || profile.provider;
+	const authUrl = profile.env['PROVIDER_AUTH_URL'] || catalogEntry?.authUrl;
+	const authInstructions = profile.env['PROVIDER_AUTH_INSTRUCTIONS'] || catalogEntry?.authInstructions;
 	const existingName = profile.name || providerName;
-	const existingToken = profile.env['ANTHROPIC_AUTH_TOKEN'] || '';
-	const existingBaseUrl = profile.env['ANTHROPIC_BASE_URL'] || '';
-	const existingModel = profile.env['ANTHROPIC_MODEL'] || 'model';
+	// A chain has no upstream of its own: its members bring the token, URL and models
+	const isChain = !!profile.chain;
+	const envFields = isChain ? [] : getProviderFields(catalogEntry);
+	const mappingFields = isChain ? [] : getModelMappingFields(catalogEntry);
+	const formKeys = [...envFields, ...mappingFields].map((f) => f.key);
 
 	const [activeIndex, setActiveIndex] = useState(0);
 	const [error, setError] = useState<string | null>(null);
-	const [values, setValues] = useState({
-		profileName: existingName,
-		baseUrl: existingBaseUrl,
-		model: existingModel,
-		token: existingToken,
+	// Empty required fields are only flagged once saving was attempted
+	const [submitted, setSubmitted] = useState(false);
+	const [profiles] = useState(loadProfiles);
+	const [connection, setConnection] = useState<ConnectionResult | 'testing' | null>(null);
+	const [pickingModel, setPickingModel] = useState(false);
+	const [editingEnv, setEditingEnv] = useState(false);
+	// Env entries the schema fields don't cover, edited in their own panel
+	const [extraEnv, setExtraEnv] = useState<EnvEntry[]>(() => Object.entries(profile.env)
+		.filter(([key]) => !formKeys.includes(key))
+		.map(([key, value]) => ({ key, value })));
+	const isPanelOpen = pickingModel || editingEnv;
+	const [values, setValues] = useState<{ [key: string]: string }>(() => {
+		const initial: { [key: string]: string } = {
+			profileName: existingName,
+			args: formatShellArgs(profile.args || []),
+			chain: (profile.chain || []).join(', '),
+		};
+		// Provider defaults only pre-fill a new profile; a field left empty on a saved one stays empty
+		for (const field of [...envFields, ...mappingFields]) {
+			initial[field.key] = profile.env[field.key] || (profile.fileKey ? '' : field.default) || '';
+		}
+		return initial;
 	});
 
-	const { stdin } = useStdin();
-	const pasteBuffer = useRef('');
-	const pasteTimeout = useRef<NodeJS.Timeout | null>(null);
-
+	// Profile name, then the provider's env fields (or a chain's members), launch args and the model mapping section
 	const fields = [
-		{ key: 'profileName', label: 'Profile name' },
-		{ key: 'baseUrl', label: 'Base URL' },
-		{ key: 'model', label: 'Model' },
-		{ key: 'token', label: 'API Token' },
-	] as const;
-
-	// Handle paste using bracketed paste mode (\x1b[200~ ... \x1b[201~)
-	useEffect(() => {
-		if (!stdin) return;
-
-		let inBracketedPaste = false;
-		let currentPaste = '';
-
-		const handleData = (data: Buffer) => {
-			const str = data.toString();
-
-			// Check for bracketed paste start
-			if (str.includes('\x1b[200~')) {
-				inBracketedPaste = true;
-				currentPaste = str.split('\x1b[200~')[1] || '';
-				return;
-			}
-
-			// Check for bracketed paste end
-			if (str.includes('\x1b[201~')) {
-				if (inBracketedPaste) {
-					const parts = str.split('\x1b[201~');
-					currentPaste += parts[0] || '';
-					// Append pasted content to current field
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + currentPaste,
-					}));
-				}
-				inBracketedPaste = false;
-				currentPaste = '';
-				return;
-			}
+		{ key: 'profileName', label: 'Profile name', secret: false },
+		...(isChain ? [{ key: 'chain', label: 'Chain', secret: false }] : []),
+		...envFields.map((f) => ({ key: f.key, label: f.label, secret: !!f.secret })),
+		{ key: 'args', label: 'Claude args', secret: false },
+		...mappingFields.map((f) => ({ key: f.key, label: f.label, secret: false })),
+	];
+	const modelKeys = ['ANTHROPIC_MODEL', ...mappingFields.map((f) => f.key)];
 
-			// Handle paste mode (Ctrl+V sends 0x16)
-			if (inBracketedPaste) {
-				currentPaste += str;
-				return;
-			}
-
-			// Check for 0x16 paste (older terminal paste)
-			if (str.includes('\x16')) {
-				const parts = str.split('\x16');
-				// Add content before paste char if any
-				if (parts[0]) {
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + parts[0],
-					}));
-				}
-				// Add pasted content
-				const pasted = parts.slice(1).join('').replace(/[\r\n]/g, '');
-				if (pasted) {
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + pasted,
-					}));
-				}
-				return;
-			}
-
-			// Very fast typing detection - if many chars arrive at once, it's likely a paste
-			if (str.length > 3 && !str.includes('\x1b')) {
-				// Use timeout to detect paste vs fast typing
-				if (pasteTimeout.current) {
-					clearTimeout(pasteTimeout.current);
-				}
-				pasteTimeout.current = setTimeout(() => {
-					// Only append if it's still valid
-					const fieldKey = fields[activeIndex].key;
-					setValues((prev) => ({
-						...prev,
-						[fieldKey]: prev[fieldKey] + str,
-					}));
-				}, 10);
-			}
-		};
+	const problems = getFieldProblems(envFields, values);
+	const chain = values.chain.split(',').map((key) => key.trim()).filter(Boolean);
+	if (isChain && chain.length === 0) {
+		problems.chain = 'List the profiles to fail over between, separated by commas';
+	}
+	for (const key of isChain ? chain : []) {
+		const member = findProfile(profiles, key);
+		if (!member || member.chain) {
+			problems.chain = member ? `"${key}" is itself a chain` : `No profile "${key}"`;
+			break;
+		}
+	}
+	try {
+		const name = values.profileName.trim() || existingName;
+		// An edited profile keeps its file; a new one must not land on another profile's
+		if (profile.fileKey) {
+			assertUniqueName(name, profile.fileKey, profiles);
+		} else {
+			getTargetFileKey(name, undefined, profiles);
+		}
+	} catch (err) {
+		problems.profileName = (err as Error).message;
+	}
+	const warnings: { [key: string]: string | null } = {
+		ANTHROPIC_BASE_URL: getBaseUrlWarning(values['ANTHROPIC_BASE_URL'] || '', catalogEntry),
+	};
 
-		stdin.on('data', handleData);
-		return () => {
-			stdin.off('data', handleData);
-			if (pasteTimeout.current) {
-				clearTimeout(pasteTimeout.current);
-			}
-		};
-	}, [stdin, activeIndex, fields]);
+	// The complete env block: extra entries plus the schema fields
+	const getEnv = () => {
+		const env: { [key: string]: string } = {};
+		for (const entry of extraEnv) {
+			env[entry.key] = entry.value;
+		}
+		for (const field of envFields) {
+			env[field.key] = values[field.key].trim() || field.default || '';
+		}
+		// Unmapped tiers are left out so claude keeps its own default
+		for (const field of mappingFields) {
+			const model = values[field.key].trim();
+			if (model) env[field.key] = model;
+		}
+		return env;
+	};
 
 	useInput((input, key) => {
 		if (key.escape) {
 			onCancel();
 			return;
 		}
+		if (isChain && key.ctrl && (input === 't' || input === 'l')) {
+			return;
+		}
+		if (key.ctrl && input === 't') {
+			setConnection('testing');
+			testProfileConnection(getEnv()).then(setConnection);
+			return;
+		}
+		if (key.ctrl && input === 'e') {
+			setEditingEnv(true);
+			return;
+		}
+		if (key.ctrl && input === 'l') {
+			// Pick for the focused model field, or the main model otherwise
+			if (!modelKeys.includes(fields[activeIndex].key)) {
+				setActiveIndex(fields.findIndex((f) => f.key === 'ANTHROPIC_MODEL'));
+			}
+			setPickingModel(true);
+			return;
+		}
 		if (key.return || input === '\r' || input === '\n') {
-			if (!values.token.trim()) {
-				setError('Token is required');
+			setSubmitted(true);
+			if (Object.keys(problems).length > 0) {
+				setError('Fix the fields marked ✗ to save');
 				return;
 			}
 			onComplete({
 				profileName: values.profileName.trim() || existingName,
-				baseUrl: values.baseUrl.trim() || existingBaseUrl,
-				model: values.model.trim() || existingModel,
-				token: values.token.trim(),
+				env: getEnv(),
+				args: splitShellArgs(values.args),
+				chain: isChain ? chain : undefined,
 			});
 			return;
 		}
@@ -152,38 +157,31 @@ export function ProfileEditorView({
 			setActiveIndex((activeIndex - 1 + fields.length) % fields.length);
 			return;
 		}
-		if (key.backspace || key.delete) {
-			const fieldKey = fields[activeIndex].key;
-			setValues((prev) => ({
-				...prev,
-				[fieldKey]: prev[fieldKey].slice(0, -1),
-			}));
-			return;
-		}
-		// Accept printable characters (space and above), ignore control chars
-		if (input && input.length === 1 && input.charCodeAt(0) >= 32 && !key.ctrl && !key.meta) {
-			const fieldKey = fields[activeIndex].key;
-			setValues((prev) => ({
-				...prev,
-				[fieldKey]: prev[fieldKey] + input,
-			}));
-			if (error) setError(null);
-		}
-	});
+	}, { isActive: !isPanelOpen });
 
-	const labelWidth = Math.max(...fields.map((f) => f.label.length)) + 1;
+	const labelWidth = Math.max(...fields.map((f) => f.label.length)) + 2;
 
 	return (
 		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
 			<Text bold color="cyan">Profile Editor</Text>
 			<Newline />
-			<Text color="gray">Tab/↑↓ move · Type to edit · Cmd+V/Ctrl+V paste · Enter save · Esc cancel</Text>
+			{profile?.sharedSource && (
+				<Text color="yellow">
+					From {profile.sharedSource} (read-only) · changes are saved as your overrides in {getProfilePath(profile.fileKey || '')}
+				</Text>
+			)}
+			<Text color="gray">
+				{isChain
+					? 'Tab/↑↓ move · Type or paste to edit · Ctrl+E variables · Enter save · Esc cancel'
+					: 'Tab/↑↓ move · Type or paste to edit · Ctrl+L pick model · Ctrl+E variables · Ctrl+T test · Enter save · Esc cancel'}
+			</Text>
+			<Text color="gray">←→ Home End move the cursor · Ctrl+W delete word · Ctrl+U clear · Ctrl+R reveal token</Text>
 			<Newline />
 			{fields.map((field, index) => {
-				const value = values[field.key];
 				const paddedLabel = (field.label + ':').padEnd(labelWidth, ' ');
 				const isActive = index === activeIndex;
-				return (
+				const problem = submitted || values[field.key] ? problems[field.key] : undefined;
+				const row = (
 					<Text key={field.key}>
 						<Text color={isActive ? 'cyan' : 'white'} bold={isActive}>
 							{isActive ? '▶ ' : '  '}{paddedLabel}
@@ -193,15 +191,79 @@ export function ProfileEditorView({
 							backgroundColor={isActive ? 'cyan' : undefined}
 							bold={isActive}
 						>
-							{value || (isActive ? '' : '-')}
+							<TextInput
+								value={values[field.key]}
+								onChange={(value) => {
+									setValues((prev) => ({ ...prev, [field.key]: value }));
+									if (error) setError(null);
+								}}
+								focus={isActive && !isPanelOpen}
+								secret={field.secret}
+								placeholder="-"
+							/>
 						</Text>
+						{problem ? (
+							<Text color="red">  ✗ {problem}</Text>
+						) : warnings[field.key] ? (
+							<Text color="yellow">  ⚠ {warnings[field.key]}</Text>
+						) : null}
 					</Text>
 				);
+				if (field.key !== mappingFields[0]?.key) return row;
+				return (
+					<React.Fragment key={field.key}>
+						<Newline />
+						<Text color="gray">Model mapping (empty keeps Claude's default):</Text>
+						{row}
+					</React.Fragment>
+				);
 			})}
+			{pickingModel && (
+				<ModelPicker
+					providerId={profile.provider}
+					env={getEnv()}
+					current={values[fields[activeIndex].key] || ''}
+					onSelect={(model) => {
+						setValues((prev) => ({ ...prev, [fields[activeIndex].key]: model }));
+						setPickingModel(false);
+					}}
+					onCancel={() => setPickingModel(false)}
+				/>
+			)}
+			{editingEnv ? (
+				<EnvVarEditor
+					entries={extraEnv}
+					reservedKeys={formKeys}
+					onDone={(entries) => {
+						setExtraEnv(entries);
+						setEditingEnv(false);
+					}}
+					onCancel={() => setEditingEnv(false)}
+				/>
+			) : (
+				<>
+					<Newline />
+					<Text color="gray">Other variables (Ctrl+E to edit):</Text>
+					{extraEnv.length === 0 && <Text color="gray">  none</Text>}
+					{extraEnv.map((entry) => (
+						<Text key={entry.key} color="gray">
+							{'  '}{entry.key}={isSecretKey(entry.key) ? maskSecret(entry.value) : entry.value}
+						</Text>
+					))}
+				</>
+			)}
 			<Newline />
-			<Text color="gray">Provider: {providerName}</Text>
-			{profile.env['PROVIDER_AUTH_URL'] && (
-				<Text color="cyan">Token help: {profile.env['PROVIDER_AUTH_URL']}</Text>
+			{isChain ? (
+				<Text color="gray">Members are profile file names, tried in order. Each brings its own token, URL and models.</Text>
+			) : (
+				<Text color="gray">Provider: {providerName}</Text>
+			)}
+			{authInstructions && <Text color="gray">{authInstructions}</Text>}
+			{authUrl && <Text color="cyan">Token help: {authUrl}</Text>}
+			{connection && (
+				<Text color={connection === 'testing' ? 'gray' : connection.status === 'ok' ? 'green' : 'red'}>
+					{connection === 'testing' ? 'Testing connection…' : describeConnectionResult(connection)}
+				</Text>
 			)}
 			{error && <Text color="yellow">{error}</Text>}
 		</Box>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+import type { Profile } from '../types.js';
+import { assertRenamable, findChildProfiles, getProfilePath, getTargetFileKey, loadProfiles } from '../lib/profiles.js';
+import { TextInput } from './TextInput.js';
+
+// Asks for a new name, then shows exactly which files the rename or copy will touch.
+export function ProfileNameForm({
+	profile,
+	mode,
+	onSubmit,
+	onCancel,
+}: {
+	profile: Profile;
+	mode: 'rename' | 'duplicate';
+	onSubmit: (name: string) => void;
+	onCancel: () => void;
+}) {
+	const [name, setName] = useState(mode === 'rename' ? profile.name : `${profile.name} copy`);
+	const [targetKey, setTargetKey] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const renaming = mode === 'rename';
+	const children = renaming && targetKey !== profile.fileKey ? findChildProfiles(loadProfiles(), profile.fileKey || '') : [];
+
+	useInput((input, key) => {
+		if (targetKey !== null) {
+			if (input.toLowerCase() === 'y') {
+				try {
+					onSubmit(name.trim());
+				} catch (err) {
+					setError((err as Error).message);
+					setTargetKey(null);
+				}
+			} else if (input.toLowerCase() === 'n' || key.escape) {
+				setTargetKey(null);
+			}
+			return;
+		}
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+		if (key.return || input === '\r' || input === '\n') {
+			try {
+				const target = getTargetFileKey(name, renaming ? profile.fileKey : undefined);
+				if (renaming) assertRenamable(profile, target);
+				setTargetKey(target);
+				setError(null);
+			} catch (err) {
+				setError((err as Error).message);
+			}
+			return;
+		}
+	});
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">{renaming ? 'Rename' : 'Duplicate'} {profile.name}</Text>
+			<Newline />
+			<Text>
+				<Text color="cyan" bold>▶ New name: </Text>
+				<TextInput value={name} onChange={setName} focus={targetKey === null} />
+			</Text>
+			<Newline />
+			{targetKey === null ? (
+				<Text color="gray">Enter continue · Esc cancel</Text>
+			) : (
+				<Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={2}>
+					<Text bold color="yellow">{renaming ? 'Rename profile?' : 'Create copy?'}</Text>
+					{!renaming ? (
+						<Text>Creates {getProfilePath(targetKey)}</Text>
+					) : targetKey === profile.fileKey ? (
+						<Text>Updates {getProfilePath(targetKey)}</Text>
+					) : (
+						<Text>Moves {getProfilePath(profile.fileKey || '')} → {getProfilePath(targetKey)}</Text>
+					)}
+					{children.map((child) => (
+						<Text key={child.fileKey}>Updates "extends" in {getProfilePath(child.fileKey || '')}</Text>
+					))}
+					<Text color="gray">Press y to confirm, n or Esc to go back</Text>
+				</Box>
+			)}
+			{error && <Text color="red">{error}</Text>}
+		</Box>
+	);
+}
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+import type { ProviderDefinition } from '../types.js';
+import { loadProviderCatalog } from '../lib/providers.js';
+
+export function ProviderPickerView({
+	onSelect,
+	onCancel,
+}: {
+	// null means "Custom…" (free-form entry)
+	onSelect: (provider: ProviderDefinition | null) => void;
+	onCancel: () => void;
+}) {
+	const [selected, setSelected] = useState(0);
+	const providers = loadProviderCatalog();
+	const totalItems = providers.length + 1;
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+			return;
+		}
+		if (input === 'j' || key.downArrow) {
+			setSelected((selected + 1) % totalItems);
+		} else if (input === 'k' || key.upArrow) {
+			setSelected((selected - 1 + totalItems) % totalItems);
+		} else if (key.return || input === '\r' || input === '\n') {
+			onSelect(providers[selected] ?? null);
+		}
+	});
+
+	const provider = providers[selected];
+
+	return (
+		<Box flexDirection="column" paddingLeft={2} paddingRight={2}>
+			<Text bold color="cyan">Add Provider</Text>
+			<Newline />
+			<Text color="gray">↑↓ j/k move · Enter choose · Esc cancel</Text>
+			<Newline />
+			{[...providers.map((p) => p.name), 'Custom…'].map((label, index) => (
+				<Text
+					key={label}
+					color={index === selected ? 'black' : 'white'}
+					backgroundColor={index === selected ? 'cyan' : undefined}
+					bold={index === selected}
+				>
+					{index === selected ? '▶ ' : '  '}{label}
+				</Text>
+			))}
+			<Newline />
+			{provider ? (
+				<>
+					<Text bold color="cyan">{provider.name}</Text>
+					{provider.description && <Text color="gray">{provider.description}</Text>}
+					<Text>Base URL: {provider.baseUrl}</Text>
+					<Text>Model: {provider.defaultModel}</Text>
+					{provider.authInstructions && <Text color="gray">{provider.authInstructions}</Text>}
+					{provider.authUrl && <Text color="cyan">Token help: {provider.authUrl}</Text>}
+				</>
+			) : (
+				<>
+					<Text bold color="cyan">Custom…</Text>
+					<Text color="gray">Enter the provider details by hand</Text>
+				</>
+			)}
+		</Box>
+	);
+}
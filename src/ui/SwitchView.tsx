@@ -1,24 +1,67 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Box, Newline, Text, useInput, useStdin } from 'ink';
 import type { Profile } from '../types.js';
-import { loadProfiles } from '../lib/profiles.js';
+import { fuzzyFilter } from '../lib/fuzzy.js';
+import { formatRelativeTime, getLaunchStats, loadFavorites, sortByRecentUse, toggleFavorite } from '../lib/history.js';
+import { findProfile, loadProfiles } from '../lib/profiles.js';
+import { getClaudeSettingsPath, type SettingsScope } from '../lib/settings.js';
+import { FilterLine, HighlightedText, MoreIndicator, getWindowStart, useVisibleItems } from './ListWindow.js';
+
+// Keys that act on the list instead of starting a filter
+const COMMAND_KEYS = ['j', 'k', 'q', 'f', 'a'];
+
+// The project path depends on .claudeprofile, which may be invalid; applying there reports why
+function describeSettingsPath(scope: SettingsScope): string {
+	try {
+		return getClaudeSettingsPath(scope);
+	} catch (err) {
+		return `unavailable (${(err as Error).message})`;
+	}
+}
 
 export function SwitchView({
+	defaultProfile,
 	onSelect,
+	onApply,
 	onCancel,
+	onFilteringChange,
+	notice,
 }: {
+	// Name or file key to preselect, e.g. from a project's .claudeprofile
+	defaultProfile?: string;
 	onSelect: (profile: Profile) => void;
+	// Writes the profile into claude's settings instead of launching it
+	onApply: (profile: Profile, scope: SettingsScope) => void;
 	onCancel: () => void;
+	// While filtering or choosing where to apply, typed keys belong to this view rather than the app's navigation
+	onFilteringChange?: (filtering: boolean) => void;
+	// Outcome of the last apply
+	notice?: string;
 }) {
-	const [selected, setSelected] = useState(0);
-	const profiles = loadProfiles();
+	const [favoritesVersion, setFavoritesVersion] = useState(0); // Re-sort after pinning
+	const [filter, setFilter] = useState<string | null>(null);
+	const [applying, setApplying] = useState<Profile | null>(null);
+	const stats = getLaunchStats();
+	const favorites = loadFavorites();
+	const profiles = sortByRecentUse(loadProfiles(), stats, favorites);
+	const results = fuzzyFilter(profiles, filter || '', (p) => [p.name, p.provider, p.env['ANTHROPIC_MODEL'] || '']);
+	const [selected, setSelected] = useState(() => {
+		const preferred = defaultProfile ? findProfile(profiles, defaultProfile) : undefined;
+		return preferred ? profiles.indexOf(preferred) : 0;
+	});
+	const visibleCount = useVisibleItems(2, 26);
+	const filteringRef = useRef(false);
+	filteringRef.current = filter !== null;
+	const applyingRef = useRef(false);
+	applyingRef.current = applying !== null;
 	const { stdin } = useStdin();
 
 	useEffect(() => {
 		if (!stdin) return;
 		const handleData = (data: Buffer) => {
 			const text = data.toString();
-			if (text === '\x1b') {
+			// A bare Esc while filtering only clears the filter
+			if (text === '\x1b' && !filteringRef.current && !applyingRef.current) {
 				onCancel();
 			}
 		};
@@ -28,7 +71,48 @@ export function SwitchView({
 		};
 	}, [stdin, onCancel]);
 
+	const capturingKeys = filter !== null || applying !== null;
+	useEffect(() => {
+		onFilteringChange?.(capturingKeys);
+	}, [capturingKeys]);
+	// Hand the keys back to the app if the view closes mid-filter
+	useEffect(() => () => onFilteringChange?.(false), []);
+
+	const setFiltering = (value: string | null) => {
+		setFilter(value);
+		setSelected(0);
+	};
+
 	useInput((input, key) => {
+		const enter = key.return || input === '\r' || input === '\n';
+		const count = results.length;
+		if (applying) {
+			if (input === 'u' || input === 'p') {
+				onApply(applying, input === 'u' ? 'user' : 'project');
+				setApplying(null);
+			} else if (key.escape || input === '\x1b' || input === 'n') {
+				setApplying(null);
+			}
+			return;
+		}
+		if (filter !== null) {
+			if (key.escape || input === '\x1b') {
+				setFiltering(null);
+			} else if (enter) {
+				if (count > 0) onSelect(results[selected].item);
+			} else if (key.downArrow) {
+				setSelected(count > 0 ? (selected + 1) % count : 0);
+			} else if (key.upArrow) {
+				setSelected(count > 0 ? (selected - 1 + count) % count : 0);
+			} else if (key.backspace || key.delete) {
+				setFiltering(filter.slice(0, -1));
+			} else {
+				const printable = input.replace(/[\x00-\x1f\x7f]/g, '');
+				if (printable && !key.ctrl && !key.meta) setFiltering(filter + printable);
+			}
+			return;
+		}
+
 		if (key.escape || input === '\x1b') {
 			onCancel();
 			return;
@@ -41,11 +125,27 @@ export function SwitchView({
 			setSelected((selected + 1) % profiles.length);
 		} else if (input === 'k' || key.upArrow) {
 			setSelected((selected - 1 + profiles.length) % profiles.length);
-		} else if ((key.return || input === '\r' || input === '\n') && profiles.length > 0) {
+		} else if (enter && profiles.length > 0) {
 			onSelect(profiles[selected]);
+		} else if (input === 'a' && profiles.length > 0) {
+			setApplying(profiles[selected]);
+		} else if (input === 'f' && profiles.length > 0) {
+			const fileKey = profiles[selected].fileKey || '';
+			toggleFavorite(fileKey);
+			// Follow the profile to its new position
+			const resorted = sortByRecentUse(loadProfiles(), stats, loadFavorites());
+			setSelected(Math.max(0, resorted.findIndex((p) => p.fileKey === fileKey)));
+			setFavoritesVersion(favoritesVersion + 1);
+		} else if (input === '/') {
+			setFiltering('');
+		} else if (/^[\w.-]$/.test(input) && !COMMAND_KEYS.includes(input) && !key.ctrl && !key.meta) {
+			setFiltering(input);
 		}
 	});
 
+	const start = getWindowStart(selected, results.length, visibleCount);
+	const visible = results.slice(start, start + visibleCount);
+
 	return (
 		<Box paddingLeft={2} paddingRight={2} flexDirection="column">
 			<Text bold inverse> Select Profile </Text>
@@ -54,15 +154,44 @@ export function SwitchView({
 				<Text color="yellow">No profiles configured. Go to Configure to add one.</Text>
 			) : (
 				<Box flexDirection="column">
-					{profiles.map((profile, index) => (
-						<Box key={profile.name} marginBottom={1}>
-							<Text color={index === selected ? 'black' : 'white'} backgroundColor={index === selected ? 'cyan' : undefined} bold={index === selected}>
-								{index === selected ? '▶ ' : '  '}{profile.name} <Text color="gray">({profile.provider})</Text>
-							</Text>
-						</Box>
-					))}
+					<FilterLine filter={filter || ''} active={filter !== null} />
+					{filter !== null && results.length === 0 && <Text color="yellow">No profile matches "{filter}"</Text>}
+					<MoreIndicator count={start} direction="above" />
+					{visible.map(({ item: profile, positions }, offset) => {
+						const index = start + offset;
+						const lastUsed = stats.find((s) => s.profile === profile.fileKey)?.lastUsed;
+						const model = profile.env['ANTHROPIC_MODEL'] || '';
+						return (
+							<Box key={profile.fileKey || profile.name} marginBottom={1}>
+								<Text color={index === selected ? 'black' : 'white'} backgroundColor={index === selected ? 'cyan' : undefined} bold={index === selected}>
+									{index === selected ? '▶ ' : '  '}{favorites.includes(profile.fileKey || '') ? '★ ' : ''}
+									<HighlightedText text={profile.name} positions={positions[0]} />
+									{' '}
+									<Text color="gray">
+										(<HighlightedText text={profile.provider} positions={positions[1]} />)
+										{positions[2].length > 0 && <> · <HighlightedText text={model} positions={positions[2]} /></>}
+										{lastUsed ? ` · ${formatRelativeTime(lastUsed)}` : ''}
+									</Text>
+								</Text>
+							</Box>
+						);
+					})}
+					<MoreIndicator count={results.length - start - visible.length} direction="below" />
 					<Newline />
-					<Text color="gray">Press ↵ to switch to selected profile</Text>
+					{applying ? (
+						<Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingLeft={1} paddingRight={1}>
+							<Text bold>Apply {applying.name} to claude's settings?</Text>
+							<Text>  <Text color="cyan">u</Text> user settings    {describeSettingsPath('user')}</Text>
+							<Text>  <Text color="cyan">p</Text> project settings {describeSettingsPath('project')}</Text>
+							<Text color="gray">Esc cancel · "claudeprofile reset" restores the original</Text>
+						</Box>
+					) : (
+						<>
+							{notice && <Text color={notice.startsWith('✓') ? 'green' : 'red'}>{notice}</Text>}
+							<Text color="gray">Press ↵ to switch to selected profile · a to apply it globally</Text>
+							<Text color="gray">Press f to pin or unpin it at the top · type or / to filter ({COMMAND_KEYS.join(', ')} need / first)</Text>
+						</>
+					)}
 				</Box>
 			)}
 		</Box>
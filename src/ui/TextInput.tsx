@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Text, useStdin, useStdout } from 'ink';
+import { maskSecret } from '../lib/mask.js';
+
+type EditKey = 'left' | 'right' | 'home' | 'end' | 'backspace' | 'delete' | 'deleteWord' | 'clear';
+
+interface EditState {
+	value: string;
+	cursor: number;
+}
+
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+// useInput can't tell Home/End apart or Delete from Backspace, so the input reads stdin itself.
+// Sequences not listed here (Tab, ↑↓, Enter, Esc, other Ctrl keys) are left to the form.
+const ESCAPE_SEQUENCES: { [sequence: string]: EditKey } = {
+	'\x1b[D': 'left',
+	'\x1bOD': 'left',
+	'\x1b[C': 'right',
+	'\x1bOC': 'right',
+	'\x1b[H': 'home',
+	'\x1bOH': 'home',
+	'\x1b[1~': 'home',
+	'\x1b[7~': 'home',
+	'\x1b[F': 'end',
+	'\x1bOF': 'end',
+	'\x1b[4~': 'end',
+	'\x1b[8~': 'end',
+	'\x1b[3~': 'delete',
+};
+
+const CONTROL_KEYS: { [char: string]: EditKey } = {
+	'\x7f': 'backspace',
+	'\b': 'backspace',
+	'\x17': 'deleteWord', // Ctrl+W
+	'\x15': 'clear', // Ctrl+U
+};
+
+const REVEAL_KEY = '\x12'; // Ctrl+R
+
+// One escape sequence (CSI, SS3 or Esc plus a key) or a run of other characters
+const TOKEN_PATTERN = /\x1b\[[0-9;]*[A-Za-z~]|\x1bO[A-Za-z]|\x1b[^]?|[^\x1b]+/g;
+
+function applyKey({ value, cursor }: EditState, key: EditKey): EditState {
+	switch (key) {
+		case 'left':
+			return { value, cursor: Math.max(0, cursor - 1) };
+		case 'right':
+			return { value, cursor: Math.min(value.length, cursor + 1) };
+		case 'home':
+			return { value, cursor: 0 };
+		case 'end':
+			return { value, cursor: value.length };
+		case 'backspace':
+			if (cursor === 0) return { value, cursor };
+			return { value: value.slice(0, cursor - 1) + value.slice(cursor), cursor: cursor - 1 };
+		case 'delete':
+			return { value: value.slice(0, cursor) + value.slice(cursor + 1), cursor };
+		case 'deleteWord': {
+			// Like a shell: the whitespace before the cursor, then the word before that
+			const start = value.slice(0, cursor).search(/\S*\s*$/);
+			return { value: value.slice(0, start) + value.slice(cursor), cursor: start };
+		}
+		case 'clear':
+			return { value: '', cursor: 0 };
+	}
+}
+
+// Line breaks and other control characters never belong in a single-line field
+function insertText({ value, cursor }: EditState, text: string): EditState {
+	const clean = text.replace(/[\x00-\x1f\x7f]/g, '');
+	return { value: value.slice(0, cursor) + clean + value.slice(cursor), cursor: cursor + clean.length };
+}
+
+// A single-line field with cursor editing and bracketed paste. Secret fields show only
+// the ends of their value (e.g. "sk-…abcd") until revealed with Ctrl+R.
+export function TextInput({
+	value,
+	onChange,
+	focus,
+	secret = false,
+	placeholder = '',
+}: {
+	value: string;
+	onChange: (value: string) => void;
+	// Only the focused input reads keys
+	focus: boolean;
+	secret?: boolean;
+	// Shown when the value is empty and the input isn't focused
+	placeholder?: string;
+}) {
+	const { stdin } = useStdin();
+	const { stdout } = useStdout();
+	const [revealed, setRevealed] = useState(false);
+	const [, redraw] = useState(0);
+	const state = useRef<EditState>({ value, cursor: value.length });
+	// Set by the form (e.g. a picked model): put the cursor at the end
+	if (state.current.value !== value) {
+		state.current = { value, cursor: value.length };
+	}
+	const onChangeRef = useRef(onChange);
+	onChangeRef.current = onChange;
+
+	useEffect(() => {
+		if (!focus) setRevealed(false);
+	}, [focus]);
+
+	// Ask the terminal to mark pasted text, so a paste is inserted once and never read as keys
+	useEffect(() => {
+		if (!focus || !stdout.isTTY) return;
+		stdout.write('\x1b[?2004h');
+		return () => {
+			stdout.write('\x1b[?2004l');
+		};
+	}, [focus, stdout]);
+
+	useEffect(() => {
+		if (!focus || !stdin) return;
+		// Text of a paste that hasn't ended yet; pastes can span several chunks
+		let pasted: string | null = null;
+
+		const update = (next: EditState) => {
+			const changed = next.value !== state.current.value;
+			state.current = next;
+			if (changed) onChangeRef.current(next.value);
+			redraw((n) => n + 1);
+		};
+
+		// Keys typed faster than the terminal is read arrive together, e.g. "a\x1b[D\x1b[D"
+		const handleTyped = (text: string) => {
+			for (const [token] of text.matchAll(TOKEN_PATTERN)) {
+				if (token.startsWith('\x1b')) {
+					const key = ESCAPE_SEQUENCES[token];
+					if (key) update(applyKey(state.current, key));
+					continue;
+				}
+				for (const char of token) {
+					if (char === REVEAL_KEY) {
+						if (secret) setRevealed((prev) => !prev);
+					} else if (CONTROL_KEYS[char]) {
+						update(applyKey(state.current, CONTROL_KEYS[char]));
+					} else if (char >= ' ') {
+						update(insertText(state.current, char));
+					}
+				}
+			}
+		};
+
+		const handleData = (data: Buffer) => {
+			let chunk = data.toString();
+			while (chunk) {
+				if (pasted !== null) {
+					const end = chunk.indexOf(PASTE_END);
+					if (end === -1) {
+						pasted += chunk;
+						return;
+					}
+					update(insertText(state.current, pasted + chunk.slice(0, end)));
+					pasted = null;
+					chunk = chunk.slice(end + PASTE_END.length);
+					continue;
+				}
+				const start = chunk.indexOf(PASTE_START);
+				if (start === -1) {
+					handleTyped(chunk);
+					return;
+				}
+				if (start > 0) handleTyped(chunk.slice(0, start));
+				pasted = '';
+				chunk = chunk.slice(start + PASTE_START.length);
+			}
+		};
+
+		stdin.on('data', handleData);
+		return () => {
+			stdin.off('data', handleData);
+		};
+	}, [focus, stdin, secret]);
+
+	const masked = secret && !revealed;
+	if (!focus) {
+		return <Text>{(secret ? maskSecret(value) : value) || placeholder}</Text>;
+	}
+	if (masked) {
+		return <Text>{maskSecret(value)}<Text inverse> </Text></Text>;
+	}
+	const { cursor } = state.current;
+	return (
+		<Text>
+			{value.slice(0, cursor)}
+			<Text inverse>{value[cursor] || ' '}</Text>
+			{value.slice(cursor + 1)}
+		</Text>
+	);
+}
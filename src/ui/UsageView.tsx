@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Box, Newline, Text, useInput } from 'ink';
+import { getUsagePricer } from '../lib/providers.js';
+import {
+	USAGE_GROUPINGS,
+	USAGE_RECORDING_ENV,
+	filterUsageByDays,
+	formatCost,
+	formatTokens,
+	isUsageRecordingEnabled,
+	loadUsage,
+	summarizeUsage,
+} from '../lib/usage.js';
+import { MoreIndicator, useVisibleItems } from './ListWindow.js';
+
+const USAGE_DAYS = 30;
+
+export function UsageView() {
+	const [groupingIndex, setGroupingIndex] = useState(0);
+	const [offset, setOffset] = useState(0);
+	const by = USAGE_GROUPINGS[groupingIndex];
+	const getPrice = getUsagePricer();
+	const entries = filterUsageByDays(loadUsage(), USAGE_DAYS);
+	const summaries = summarizeUsage(entries, by, getPrice);
+	const visibleCount = useVisibleItems(1, 24);
+	const maxOffset = Math.max(0, summaries.length - visibleCount);
+	const start = Math.min(offset, maxOffset);
+	const keyWidth = Math.max(by.length, ...summaries.map((s) => s.key.length));
+
+	useInput((input, key) => {
+		if (key.tab) {
+			setGroupingIndex((groupingIndex + 1) % USAGE_GROUPINGS.length);
+			setOffset(0);
+		} else if (input === 'j' || key.downArrow) {
+			setOffset(Math.min(start + 1, maxOffset));
+		} else if (input === 'k' || key.upArrow) {
+			setOffset(Math.max(start - 1, 0));
+		}
+	});
+
+	return (
+		<Box paddingLeft={2} paddingRight={2} flexDirection="column">
+			<Text bold inverse> Token Usage (last {USAGE_DAYS} days) </Text>
+			<Newline />
+			{!isUsageRecordingEnabled() && (
+				<Text color="yellow">Recording is off. Set {USAGE_RECORDING_ENV}=1 before launching to record usage.</Text>
+			)}
+			{entries.length === 0 ? (
+				<Text color="yellow">No usage recorded yet.</Text>
+			) : (
+				<>
+					<Text>
+						{USAGE_GROUPINGS.map((grouping) => (
+							<Text key={grouping} color={grouping === by ? 'cyan' : 'gray'} bold={grouping === by}> by {grouping} </Text>
+						))}
+					</Text>
+					<Newline />
+					<Text bold>
+						{by.padEnd(keyWidth)}  {'requests'.padStart(8)}  {'input'.padStart(7)}  {'output'.padStart(7)}  {'cache'.padStart(7)}  cost
+					</Text>
+					<MoreIndicator count={start} direction="above" />
+					{summaries.slice(start, start + visibleCount).map((s) => (
+						<Text key={s.key}>
+							{s.key.padEnd(keyWidth)}  <Text color="gray">{String(s.requests).padStart(8)}</Text>
+							{'  '}{formatTokens(s.inputTokens).padStart(7)}  {formatTokens(s.outputTokens).padStart(7)}
+							{'  '}<Text color="gray">{formatTokens(s.cacheReadTokens + s.cacheWriteTokens).padStart(7)}</Text>
+							{'  '}<Text color="green">{formatCost(s)}</Text>
+						</Text>
+					))}
+					<MoreIndicator count={summaries.length - start - visibleCount} direction="below" />
+					<Newline />
+					{summaries.some((s) => s.unpriced > 0) && (
+						<Text color="gray">* Some requests have no price. Add "prices" to their provider definition.</Text>
+					)}
+					<Text color="gray">Tab switches grouping</Text>
+				</>
+			)}
+		</Box>
+	);
+}